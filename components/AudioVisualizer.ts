@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+import type { AudioAnalyser, AudioAnalysis } from '../utils/AudioAnalyser';
+
+/** The bottom of the meters, in dBFS or LUFS. */
+const METER_FLOOR_DB = -60;
+
+/** Spectrum bars, spread logarithmically over this range, in Hz. */
+const SPECTRUM_BARS = 64;
+const SPECTRUM_MIN_HZ = 20;
+const SPECTRUM_MAX_HZ = 20000;
+
+const CANVAS_WIDTH = 320;
+const SPECTRUM_HEIGHT = 80;
+const WAVEFORM_HEIGHT = 60;
+
+function meterFraction(db: number) {
+  if (!Number.isFinite(db)) return 0;
+  return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+function formatDb(db: number) {
+  return Number.isFinite(db) ? db.toFixed(1) : '-∞';
+}
+
+/** A spectrum, a scrolling waveform and level meters fed by an `AudioAnalyser`. */
+@customElement('audio-visualizer')
+export class AudioVisualizer extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      gap: 12px;
+      padding: 12px;
+      border-radius: 15px;
+      background: #000000b3;
+      border: 1px solid #ffffff4d;
+      color: #fff;
+      font-size: 12px;
+    }
+    .scopes {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+    canvas {
+      display: block;
+      background: #ffffff0d;
+      border-radius: 4px;
+    }
+    .meters {
+      display: grid;
+      grid-template-columns: auto 100px 70px;
+      align-items: center;
+      gap: 4px 8px;
+    }
+    .bar {
+      height: 8px;
+      border-radius: 4px;
+      background: #ffffff1a;
+      overflow: hidden;
+    }
+    .fill {
+      height: 100%;
+    }
+    .value {
+      font-family: monospace;
+      text-align: right;
+    }
+  `;
+
+  @property({ type: Object }) analyser: AudioAnalyser | null = null;
+  @state() private analysis: AudioAnalysis | null = null;
+
+  @query('#spectrum') private spectrumCanvas!: HTMLCanvasElement;
+  @query('#waveform') private waveformCanvas!: HTMLCanvasElement;
+
+  /** Lowest and highest sample of each past frame, oldest first. */
+  private waveformHistory: Array<[number, number]> = [];
+
+  private readonly onAnalysis = (e: CustomEvent<AudioAnalysis>) => {
+    this.analysis = e.detail;
+    this.pushWaveform();
+    this.drawSpectrum();
+    this.drawWaveform();
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.analyser?.addEventListener('audio-analysis', this.onAnalysis);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.analyser?.removeEventListener('audio-analysis', this.onAnalysis);
+  }
+
+  private pushWaveform() {
+    if (!this.analyser) return;
+    let min = 0;
+    let max = 0;
+    for (const sample of this.analyser.waveform) {
+      min = Math.min(min, sample);
+      max = Math.max(max, sample);
+    }
+    this.waveformHistory.push([min, max]);
+    if (this.waveformHistory.length > CANVAS_WIDTH) this.waveformHistory.shift();
+  }
+
+  private drawSpectrum() {
+    const ctx = this.spectrumCanvas?.getContext('2d');
+    if (!ctx || !this.analyser) return;
+    const spectrum = this.analyser.spectrum;
+    const binHz = this.analyser.binHz;
+    ctx.clearRect(0, 0, CANVAS_WIDTH, SPECTRUM_HEIGHT);
+    ctx.fillStyle = '#2af6de';
+    const barWidth = CANVAS_WIDTH / SPECTRUM_BARS;
+    for (let bar = 0; bar < SPECTRUM_BARS; bar++) {
+      // The loudest bin within each bar's slice of the log frequency axis.
+      const fromHz = SPECTRUM_MIN_HZ * (SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ) ** (bar / SPECTRUM_BARS);
+      const toHz = SPECTRUM_MIN_HZ * (SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ) ** ((bar + 1) / SPECTRUM_BARS);
+      const from = Math.floor(fromHz / binHz);
+      const to = Math.min(spectrum.length, Math.max(from + 1, Math.ceil(toHz / binHz)));
+      let level = 0;
+      for (let i = from; i < to; i++) level = Math.max(level, spectrum[i]);
+      const height = (level / 0xff) * SPECTRUM_HEIGHT;
+      ctx.fillRect(bar * barWidth, SPECTRUM_HEIGHT - height, barWidth - 1, height);
+    }
+  }
+
+  private drawWaveform() {
+    const ctx = this.waveformCanvas?.getContext('2d');
+    if (!ctx) return;
+    const mid = WAVEFORM_HEIGHT / 2;
+    ctx.clearRect(0, 0, CANVAS_WIDTH, WAVEFORM_HEIGHT);
+    ctx.fillStyle = '#d9b2ff';
+    // Newest frame on the right, scrolling left.
+    const offset = CANVAS_WIDTH - this.waveformHistory.length;
+    this.waveformHistory.forEach(([min, max], x) => {
+      const top = mid - max * mid;
+      ctx.fillRect(offset + x, top, 1, Math.max(1, (max - min) * mid));
+    });
+  }
+
+  private renderMeter(label: string, fraction: number, value: string, color: string) {
+    const fill = styleMap({ width: `${fraction * 100}%`, background: color });
+    return html`
+      <span>${label}</span>
+      <div class="bar"><div class="fill" style=${fill}></div></div>
+      <span class="value">${value}</span>
+    `;
+  }
+
+  private renderLevel(label: string, db: number | undefined, unit: string, color: string) {
+    const level = db ?? -Infinity;
+    return this.renderMeter(label, meterFraction(level), `${formatDb(level)} ${unit}`, color);
+  }
+
+  private renderBand(label: string, level: number | undefined) {
+    return this.renderMeter(label, level ?? 0, `${Math.round((level ?? 0) * 100)}%`, '#3dffab');
+  }
+
+  override render() {
+    const a = this.analysis;
+    return html`
+      <div class="scopes">
+        <canvas id="spectrum" width=${CANVAS_WIDTH} height=${SPECTRUM_HEIGHT}></canvas>
+        <canvas id="waveform" width=${CANVAS_WIDTH} height=${WAVEFORM_HEIGHT}></canvas>
+      </div>
+      <div class="meters">
+        ${this.renderLevel('Peak', a?.peakDb, 'dB', '#ff25f6')}
+        ${this.renderLevel('RMS', a?.rmsDb, 'dB', '#2af6de')}
+        ${this.renderLevel('Loudness', a?.shortTermLufs, 'LUFS', '#ffdd28')}
+        ${this.renderBand('Low', a?.bands.low)}
+        ${this.renderBand('Mid', a?.bands.mid)}
+        ${this.renderBand('High', a?.bands.high)}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'audio-visualizer': AudioVisualizer;
+  }
+}
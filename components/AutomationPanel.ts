@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { AutomationLane, AutomationRecorder } from '../utils/AutomationRecorder';
+
+function formatDuration(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return `${m}:${s}`;
+}
+
+/** Records, lists and replays automation lanes. */
+@customElement('automation-panel')
+export class AutomationPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      padding: 12px;
+      border-radius: 15px;
+      background: #000000b3;
+      border: 1px solid #ffffff4d;
+      color: #fff;
+      font-size: 13px;
+      max-height: 60vh;
+      overflow-y: auto;
+    }
+    .lane {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      &.replaying .name {
+        color: #3dffab;
+      }
+    }
+    .name {
+      flex: 1;
+      cursor: text;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .duration {
+      font-family: monospace;
+      opacity: 0.7;
+    }
+    .hint {
+      opacity: 0.6;
+      text-align: center;
+    }
+    button {
+      font-family: 'Poppins', sans-serif;
+      font-size: 11px;
+      color: #fff;
+      background: #ffffff26;
+      border: 1px solid #ffffff73;
+      border-radius: 6px;
+      padding: 2px 6px;
+      cursor: pointer;
+      &:hover {
+        background: #ffffff4d;
+      }
+      &.recording {
+        background: #da2000;
+        border-color: #da2000;
+      }
+    }
+  `;
+
+  @property({ type: Object }) recorder: AutomationRecorder | null = null;
+
+  private readonly onChange = () => this.requestUpdate();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.recorder?.addEventListener('lanes-changed', this.onChange);
+    this.recorder?.addEventListener('automation-state-changed', this.onChange);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.recorder?.removeEventListener('lanes-changed', this.onChange);
+    this.recorder?.removeEventListener('automation-state-changed', this.onChange);
+  }
+
+  private toggleRecord() {
+    if (this.recorder?.automationState === 'recording') {
+      this.recorder.stop();
+    } else {
+      this.dispatchEvent(new CustomEvent('automation-record'));
+    }
+  }
+
+  private toggleReplay(lane: AutomationLane) {
+    if (!this.recorder) return;
+    if (this.recorder.replayingLaneId === lane.id) {
+      this.recorder.stop();
+    } else {
+      this.recorder.replay(lane.id);
+    }
+  }
+
+  private rename(lane: AutomationLane) {
+    const name = window.prompt('Rename lane:', lane.name)?.trim();
+    if (!name) return;
+    this.recorder?.renameLane(lane.id, name);
+  }
+
+  private delete(lane: AutomationLane) {
+    if (!window.confirm(`Delete "${lane.name}"?`)) return;
+    this.recorder?.deleteLane(lane.id);
+  }
+
+  private renderLane(lane: AutomationLane) {
+    const replaying = this.recorder?.replayingLaneId === lane.id;
+    return html`<div class="lane ${replaying ? 'replaying' : ''}">
+      <span class="name" title="Rename" @click=${() => this.rename(lane)}>${lane.name}</span>
+      <span class="duration">${formatDuration(lane.duration)}</span>
+      <button @click=${() => this.toggleReplay(lane)}>${replaying ? '■' : '▶'}</button>
+      <button title="Delete lane" @click=${() => this.delete(lane)}>✕</button>
+    </div>`;
+  }
+
+  override render() {
+    const recording = this.recorder?.automationState === 'recording';
+    const lanes = this.recorder?.getLanes() ?? [];
+    return html`
+      <button class=${recording ? 'recording' : ''} @click=${this.toggleRecord}>
+        ${recording ? 'Stop recording' : 'Record lane'}
+      </button>
+      ${lanes.length === 0
+        ? html`<div class="hint">Record a lane, then play it back hands-free.</div>`
+        : lanes.map((lane) => this.renderLane(lane))}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'automation-panel': AutomationPanel;
+  }
+}
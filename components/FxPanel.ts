@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import './WeightKnob';
+import type { WeightKnob } from './WeightKnob';
+import { denormalizeKnob } from './MusicConfigPanel';
+import type { KnobSpec } from './MusicConfigPanel';
+
+import type { FxSettings } from '../types';
+import { FX_DEFAULTS, FX_KILL_BANDS, FX_RANGES } from '../utils/MasterFxChain';
+import type { FxKill, FxKnobParam } from '../utils/MasterFxChain';
+
+/** The continuous effect parameters. */
+export const FX_KNOBS: Array<KnobSpec<FxKnobParam>> = [
+  { param: 'eqLow', label: 'Low', ...FX_RANGES.eqLow, defaultValue: FX_DEFAULTS.eqLow, color: '#ff25f6' },
+  { param: 'eqMid', label: 'Mid', ...FX_RANGES.eqMid, defaultValue: FX_DEFAULTS.eqMid, color: '#ffdd28' },
+  { param: 'eqHigh', label: 'High', ...FX_RANGES.eqHigh, defaultValue: FX_DEFAULTS.eqHigh, color: '#2af6de' },
+  { param: 'filter', label: 'Filter', ...FX_RANGES.filter, defaultValue: FX_DEFAULTS.filter, color: '#3dffab' },
+  { param: 'resonance', label: 'Resonance', ...FX_RANGES.resonance, defaultValue: FX_DEFAULTS.resonance, color: '#3dffab' },
+  { param: 'compressor', label: 'Comp', ...FX_RANGES.compressor, defaultValue: FX_DEFAULTS.compressor, color: '#d8ff3e' },
+  { param: 'delaySend', label: 'Delay', ...FX_RANGES.delaySend, defaultValue: FX_DEFAULTS.delaySend, color: '#9900ff' },
+  { param: 'delayBeats', label: 'Beats', ...FX_RANGES.delayBeats, defaultValue: FX_DEFAULTS.delayBeats, color: '#9900ff' },
+  { param: 'delayFeedback', label: 'Feedback', ...FX_RANGES.delayFeedback, defaultValue: FX_DEFAULTS.delayFeedback, color: '#9900ff' },
+  { param: 'reverbSend', label: 'Reverb', ...FX_RANGES.reverbSend, defaultValue: FX_DEFAULTS.reverbSend, color: '#d9b2ff' },
+];
+
+const KILL_LABELS: Record<FxKill, string> = {
+  killLow: 'Low kill',
+  killMid: 'Mid kill',
+  killHigh: 'High kill',
+};
+
+/** The EQ band kills, each shown under its band's knob. */
+export const FX_KILLS: Array<{ param: FxKill; band: FxKnobParam; label: string }> =
+  (Object.keys(FX_KILL_BANDS) as FxKill[]).map((param) => ({
+    param,
+    band: FX_KILL_BANDS[param],
+    label: KILL_LABELS[param],
+  }));
+
+/** Knobs and kill switches for the master effects. */
+@customElement('fx-panel')
+export class FxPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: flex-start;
+      gap: 2vmin;
+      color: #fff;
+    }
+    .param {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.5vmin;
+      font-size: 1.4vmin;
+    }
+    weight-knob {
+      width: 7vmin;
+    }
+    .value {
+      font-family: monospace;
+      opacity: 0.8;
+    }
+    .unset .value {
+      opacity: 0.4;
+    }
+    button {
+      font-family: 'Poppins', sans-serif;
+      font-size: 1.2vmin;
+      color: #fff;
+      background: #ffffff26;
+      border: 1px solid #ffffff73;
+      border-radius: 8px;
+      padding: 2px 8px;
+      cursor: pointer;
+      &.active {
+        background: #ff4d4d;
+        border-color: #ff4d4d;
+      }
+    }
+  `;
+
+  @property({ type: Object }) fx: FxSettings = {};
+
+  private dispatchFxChange(fx: FxSettings) {
+    this.fx = fx;
+    this.dispatchEvent(new CustomEvent<FxSettings>('fx-changed', { detail: fx }));
+  }
+
+  private handleKnobInput(spec: KnobSpec<FxKnobParam>, e: Event) {
+    // The knob works in the 0-2 weight range, rescale it to the param range.
+    const knob = e.target as WeightKnob;
+    const value = denormalizeKnob(spec, knob.value / 2);
+    this.dispatchFxChange({ ...this.fx, [spec.param]: value });
+  }
+
+  private toggleKill(param: FxKill) {
+    this.dispatchFxChange({ ...this.fx, [param]: !this.fx[param] });
+  }
+
+  private renderKnob(spec: KnobSpec<FxKnobParam>) {
+    const current = this.fx[spec.param];
+    const value = current ?? spec.defaultValue;
+    const knobValue = ((value - spec.min) / (spec.max - spec.min)) * 2;
+    const display = spec.step < 1 ? value.toFixed(2) : value.toString();
+    const kill = FX_KILLS.find((kill) => kill.band === spec.param);
+    return html`<div class="param ${current === undefined ? 'unset' : ''}">
+      <weight-knob
+        value=${knobValue}
+        color=${spec.color}
+        @input=${(e: Event) => this.handleKnobInput(spec, e)}></weight-knob>
+      <span>${spec.label}</span>
+      <span class="value">${display}</span>
+      ${kill ? html`<button
+        class=${classMap({ active: !!this.fx[kill.param] })}
+        title=${kill.label}
+        @click=${() => this.toggleKill(kill.param)}>Kill</button>` : ''}
+    </div>`;
+  }
+
+  override render() {
+    return FX_KNOBS.map((spec) => this.renderKnob(spec));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'fx-panel': FxPanel;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import { matchProfile, OUTPUT_PROFILES, PROFILE_OFF } from '../utils/MidiFeedback';
+import type { MidiFeedback } from '../utils/MidiFeedback';
+import { describeBinding } from '../utils/MidiMappingRegistry';
+import type { MidiControl, MidiMappingRegistry } from '../utils/MidiMappingRegistry';
+
+/**
+ * Lists the controls with their MIDI bindings and learn buttons, and the
+ * feedback profile of each enabled device.
+ */
+@customElement('midi-mapping-panel')
+export class MidiMappingPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      padding: 12px;
+      border-radius: 15px;
+      background: #000000b3;
+      border: 1px solid #ffffff4d;
+      color: #fff;
+      font-size: 13px;
+      max-height: 60vh;
+      overflow-y: auto;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .label {
+      flex: 1;
+    }
+    h3 {
+      margin: 4px 0 0;
+      font-size: 13px;
+      font-weight: 600;
+      opacity: 0.7;
+    }
+    select {
+      font-family: 'Poppins', sans-serif;
+      font-size: 12px;
+      color: #fff;
+      background: #ffffff26;
+      border: 1px solid #fff8;
+      border-radius: 4px;
+      max-width: 140px;
+    }
+    select option {
+      color: #000;
+    }
+    .binding {
+      font-family: monospace;
+      min-width: 70px;
+      text-align: center;
+      border: 1px solid #fff8;
+      border-radius: 4px;
+      padding: 1px 5px;
+      cursor: pointer;
+      user-select: none;
+      &.learning {
+        color: #ffb84d;
+        border-color: #ffb84d;
+      }
+    }
+    button {
+      font-family: 'Poppins', sans-serif;
+      color: #fff;
+      background: none;
+      border: none;
+      cursor: pointer;
+      opacity: 0.6;
+      &:hover {
+        opacity: 1;
+      }
+      &:disabled {
+        visibility: hidden;
+      }
+    }
+  `;
+
+  @property({ type: Array }) controls: MidiControl[] = [];
+  @property({ type: Object }) registry: MidiMappingRegistry | null = null;
+  @property({ type: Object }) feedback: MidiFeedback | null = null;
+  /** Names of the enabled MIDI devices. */
+  @property({ type: Array }) devices: string[] = [];
+
+  private readonly onMappingsChanged = () => this.requestUpdate();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.registry?.addEventListener('mappings-changed', this.onMappingsChanged);
+    this.feedback?.addEventListener('profiles-changed', this.onMappingsChanged);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.registry?.cancelLearn();
+    this.registry?.removeEventListener('mappings-changed', this.onMappingsChanged);
+    this.feedback?.removeEventListener('profiles-changed', this.onMappingsChanged);
+  }
+
+  private toggleLearn(controlId: string) {
+    if (!this.registry) return;
+    if (this.registry.learningControlId === controlId) {
+      this.registry.cancelLearn();
+    } else {
+      this.registry.learn(controlId);
+    }
+  }
+
+  private renderControl(control: MidiControl) {
+    const bindings = this.registry?.getBindings(control.id) ?? [];
+    const learning = this.registry?.learningControlId === control.id;
+    const classes = classMap({ binding: true, learning });
+    const label = bindings.map(({ binding }) => describeBinding(binding)).join(', ');
+    const title = bindings.map(({ device, binding }) => `${device}: ${describeBinding(binding)}`).join('\n');
+    return html`<div class="row">
+      <span class="label">${control.label}</span>
+      <span class=${classes} title=${title} @click=${() => this.toggleLearn(control.id)}>
+        ${learning ? 'Learn' : label || '—'}
+      </span>
+      <button
+        title="Clear mapping"
+        ?disabled=${bindings.length === 0}
+        @click=${() => this.registry?.unmap(control.id)}>✕</button>
+    </div>`;
+  }
+
+  private renderOutput(device: string) {
+    const setting = this.feedback?.getProfileSetting(device) ?? '';
+    return html`<div class="row">
+      <span class="label">${device}</span>
+      <select
+        title="LED and fader feedback"
+        @change=${(e: Event) => this.feedback?.setProfileSetting(device, (e.target as HTMLSelectElement).value || null)}>
+        <option value="" ?selected=${setting === ''}>Auto (${matchProfile(device).name})</option>
+        ${OUTPUT_PROFILES.map(
+          (profile) => html`<option value=${profile.id} ?selected=${setting === profile.id}>${profile.name}</option>`,
+        )}
+        <option value=${PROFILE_OFF} ?selected=${setting === PROFILE_OFF}>Off</option>
+      </select>
+    </div>`;
+  }
+
+  override render() {
+    return html`
+      ${this.feedback && this.devices.length > 0 ? html`
+        <h3>Feedback</h3>
+        ${this.devices.map((device) => this.renderOutput(device))}
+        <h3>Controls</h3>` : ''}
+      ${this.controls.map((control) => this.renderControl(control))}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-mapping-panel': MidiMappingPanel;
+  }
+}
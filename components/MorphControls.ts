@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+import type { Easing } from '../utils/PresetMorph';
+
+export interface MorphSettings {
+  target: string;
+  length: number;
+  unit: 'bars' | 'seconds';
+  easing: Easing;
+}
+
+const EASING_LABELS: Record<Easing, string> = {
+  'linear': 'Linear',
+  'exponential': 'Exponential',
+  's-curve': 'S-curve',
+};
+
+/** Picks a target preset and duration, and starts or cancels a morph. */
+@customElement('morph-controls')
+export class MorphControls extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 1.5vmin;
+      color: #fff;
+      font-size: 1.4vmin;
+    }
+    select, input, button {
+      font-family: 'Poppins', sans-serif;
+      font-size: 1.4vmin;
+      color: #fff;
+      background: #ffffff26;
+      border: 1px solid #ffffff73;
+      border-radius: 8px;
+      padding: 4px 8px;
+      outline: none;
+    }
+    select option {
+      color: #000;
+    }
+    input {
+      width: 6vmin;
+    }
+    button {
+      position: relative;
+      overflow: hidden;
+      cursor: pointer;
+      min-width: 10vmin;
+      &:hover {
+        background: #ffffff4d;
+      }
+    }
+    .progress {
+      position: absolute;
+      inset: 0 auto 0 0;
+      background: #ffffff4d;
+      pointer-events: none;
+    }
+  `;
+
+  @property({ type: Array }) presetNames: string[] = [];
+  @property({ type: Object }) settings: MorphSettings = {
+    target: '',
+    length: 4,
+    unit: 'bars',
+    easing: 's-curve',
+  };
+  /** Progress of the running morph, or null when idle. */
+  @property({ type: Number }) progress: number | null = null;
+
+  private changeSetting<K extends keyof MorphSettings>(key: K, value: MorphSettings[K]) {
+    this.dispatchEvent(new CustomEvent<MorphSettings>('morph-settings-changed', {
+      detail: { ...this.settings, [key]: value },
+    }));
+  }
+
+  private toggleMorph() {
+    this.dispatchEvent(new CustomEvent(this.progress === null ? 'morph-start' : 'morph-cancel'));
+  }
+
+  override render() {
+    const progressStyle = styleMap({ width: `${(this.progress ?? 0) * 100}%` });
+    return html`
+      <span>Morph to</span>
+      <select
+        .value=${this.settings.target}
+        @change=${(e: Event) => this.changeSetting('target', (e.target as HTMLSelectElement).value)}>
+        ${this.presetNames.map(
+          (name) => html`<option .value=${name} ?selected=${name === this.settings.target}>${name}</option>`,
+        )}
+      </select>
+      <span>over</span>
+      <input
+        type="number"
+        min="0"
+        step="1"
+        .value=${this.settings.length.toString()}
+        @change=${(e: Event) => this.changeSetting('length', Math.max(0, Number((e.target as HTMLInputElement).value) || 0))} />
+      <select
+        .value=${this.settings.unit}
+        @change=${(e: Event) => this.changeSetting('unit', (e.target as HTMLSelectElement).value as MorphSettings['unit'])}>
+        <option value="bars">bars</option>
+        <option value="seconds">seconds</option>
+      </select>
+      <select
+        @change=${(e: Event) => this.changeSetting('easing', (e.target as HTMLSelectElement).value as Easing)}>
+        ${Object.entries(EASING_LABELS).map(
+          ([easing, label]) => html`<option value=${easing} ?selected=${easing === this.settings.easing}>${label}</option>`,
+        )}
+      </select>
+      <button @click=${this.toggleMorph}>
+        <div class="progress" style=${progressStyle}></div>
+        ${this.progress === null ? 'Morph' : 'Cancel'}
+      </button>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'morph-controls': MorphControls;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { Scale } from '@google/genai';
+
+import './WeightKnob';
+import type { WeightKnob } from './WeightKnob';
+
+import type { MusicConfig } from '../types';
+
+export type KnobParam = 'bpm' | 'density' | 'brightness' | 'temperature' | 'guidance';
+
+export interface KnobSpec<P extends string = KnobParam> {
+  param: P;
+  label: string;
+  min: number;
+  max: number;
+  /** Shown on the knob while the parameter is unset. */
+  defaultValue: number;
+  step: number;
+  color: string;
+}
+
+/** The numeric generation parameters, with the ranges accepted by the API. */
+export const CONFIG_KNOBS: KnobSpec[] = [
+  { param: 'bpm', label: 'BPM', min: 60, max: 200, defaultValue: 120, step: 1, color: '#ff25f6' },
+  { param: 'density', label: 'Density', min: 0, max: 1, defaultValue: 0.5, step: 0.01, color: '#2af6de' },
+  { param: 'brightness', label: 'Brightness', min: 0, max: 1, defaultValue: 0.5, step: 0.01, color: '#ffdd28' },
+  { param: 'temperature', label: 'Temperature', min: 0, max: 3, defaultValue: 1.1, step: 0.01, color: '#9900ff' },
+  { param: 'guidance', label: 'Guidance', min: 0, max: 6, defaultValue: 4, step: 0.01, color: '#3dffab' },
+];
+
+/** Maps a 0-1 control value onto the parameter's range and step. */
+export function denormalizeKnob(spec: KnobSpec<string>, normalized: number) {
+  const raw = spec.min + normalized * (spec.max - spec.min);
+  // Rounding to the step's decimals drops float noise like 0.30000000000000004.
+  const decimals = spec.step.toString().split('.')[1]?.length ?? 0;
+  return Number((Math.round(raw / spec.step) * spec.step).toFixed(decimals));
+}
+
+/** Human readable names for each key, e.g. "C Major / A Minor". */
+const SCALE_LABELS: Partial<Record<Scale, string>> = {
+  [Scale.C_MAJOR_A_MINOR]: 'C Major / A Minor',
+  [Scale.D_FLAT_MAJOR_B_FLAT_MINOR]: 'D♭ Major / B♭ Minor',
+  [Scale.D_MAJOR_B_MINOR]: 'D Major / B Minor',
+  [Scale.E_FLAT_MAJOR_C_MINOR]: 'E♭ Major / C Minor',
+  [Scale.E_MAJOR_D_FLAT_MINOR]: 'E Major / C♯ Minor',
+  [Scale.F_MAJOR_D_MINOR]: 'F Major / D Minor',
+  [Scale.G_FLAT_MAJOR_E_FLAT_MINOR]: 'G♭ Major / E♭ Minor',
+  [Scale.G_MAJOR_E_MINOR]: 'G Major / E Minor',
+  [Scale.A_FLAT_MAJOR_F_MINOR]: 'A♭ Major / F Minor',
+  [Scale.A_MAJOR_G_FLAT_MINOR]: 'A Major / F♯ Minor',
+  [Scale.B_FLAT_MAJOR_G_MINOR]: 'B♭ Major / G Minor',
+  [Scale.B_MAJOR_A_FLAT_MINOR]: 'B Major / G♯ Minor',
+};
+
+/** Knobs and inputs for the music generation config. */
+@customElement('music-config-panel')
+export class MusicConfigPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: flex-end;
+      gap: 2vmin;
+      color: #fff;
+    }
+    .param {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.5vmin;
+      font-size: 1.4vmin;
+    }
+    weight-knob {
+      width: 7vmin;
+    }
+    .value {
+      font-family: monospace;
+      opacity: 0.8;
+    }
+    .unset .value {
+      opacity: 0.4;
+    }
+    select, input {
+      font-family: 'Poppins', sans-serif;
+      font-size: 1.4vmin;
+      color: #fff;
+      background: #ffffff26;
+      border: 1px solid #ffffff73;
+      border-radius: 8px;
+      padding: 4px 8px;
+      outline: none;
+    }
+    select option {
+      color: #000;
+    }
+    input {
+      width: 10vmin;
+    }
+  `;
+
+  @property({ type: Object }) config: MusicConfig = {};
+
+  private dispatchConfigChange(config: MusicConfig) {
+    this.config = config;
+    this.dispatchEvent(
+      new CustomEvent<MusicConfig>('config-changed', { detail: config }),
+    );
+  }
+
+  private handleKnobInput(spec: KnobSpec, e: Event) {
+    // The knob works in the 0-2 weight range, rescale it to the param range.
+    const knob = e.target as WeightKnob;
+    const value = denormalizeKnob(spec, knob.value / 2);
+    this.dispatchConfigChange({ ...this.config, [spec.param]: value });
+  }
+
+  private handleScaleChange(e: Event) {
+    const value = (e.target as HTMLSelectElement).value as Scale | '';
+    this.dispatchConfigChange({ ...this.config, scale: value || undefined });
+  }
+
+  private handleSeedChange(e: Event) {
+    const value = (e.target as HTMLInputElement).value.trim();
+    const seed = Number.parseInt(value, 10);
+    this.dispatchConfigChange({ ...this.config, seed: Number.isNaN(seed) ? undefined : seed });
+  }
+
+  private renderKnob(spec: KnobSpec) {
+    const current = this.config[spec.param];
+    const value = current ?? spec.defaultValue;
+    const knobValue = ((value - spec.min) / (spec.max - spec.min)) * 2;
+    const display = spec.step < 1 ? value.toFixed(2) : value.toString();
+    return html`<div class="param ${current === undefined ? 'unset' : ''}">
+      <weight-knob
+        value=${knobValue}
+        color=${spec.color}
+        @input=${(e: Event) => this.handleKnobInput(spec, e)}></weight-knob>
+      <span>${spec.label}</span>
+      <span class="value">${display}</span>
+    </div>`;
+  }
+
+  override render() {
+    return html`
+      ${CONFIG_KNOBS.map((spec) => this.renderKnob(spec))}
+      <div class="param">
+        <select @change=${this.handleScaleChange}>
+          <option value="" ?selected=${!this.config.scale}>Auto</option>
+          ${Object.entries(SCALE_LABELS).map(
+            ([scale, label]) => html`<option value=${scale} ?selected=${scale === this.config.scale}>${label}</option>`,
+          )}
+        </select>
+        <span>Scale</span>
+      </div>
+      <div class="param">
+        <input
+          type="number"
+          placeholder="Random"
+          .value=${this.config.seed?.toString() ?? ''}
+          @change=${this.handleSeedChange} />
+        <span>Seed</span>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'music-config-panel': MusicConfigPanel;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import './WeightKnob';
+import type { WeightKnob } from './WeightKnob';
+
+import type { OutputSettings } from '../types';
+import { listAudioOutputs, supportsSinkSelection } from '../utils/audioOutputs';
+import type { AudioOutput } from '../utils/audioOutputs';
+
+/** Master and cue volumes, and the output device each plays to. */
+@customElement('output-panel')
+export class OutputPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: flex-start;
+      gap: 3vmin;
+      color: #fff;
+    }
+    .route {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.5vmin;
+      font-size: 1.4vmin;
+    }
+    weight-knob {
+      width: 7vmin;
+    }
+    .value {
+      font-family: monospace;
+      opacity: 0.8;
+    }
+    select {
+      font-family: 'Poppins', sans-serif;
+      font-size: 1.2vmin;
+      max-width: 18vmin;
+      color: #fff;
+      background: #ffffff26;
+      border: 1px solid #ffffff73;
+      border-radius: 8px;
+      padding: 2px 8px;
+      option {
+        color: #000;
+      }
+    }
+  `;
+
+  /** Master volume, from 0 to 1. */
+  @property({ type: Number }) volume = 1;
+  /** Cue volume, from 0 to 1. */
+  @property({ type: Number }) cueVolume = 1;
+  @property({ type: Object }) settings: OutputSettings = { mainSinkId: '', cueSinkId: '' };
+  @state() private outputs: AudioOutput[] = [];
+
+  private readonly refreshOutputs = async () => {
+    try {
+      this.outputs = await listAudioOutputs();
+    } catch {
+      this.outputs = [];
+    }
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    navigator.mediaDevices?.addEventListener('devicechange', this.refreshOutputs);
+    this.refreshOutputs();
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    navigator.mediaDevices?.removeEventListener('devicechange', this.refreshOutputs);
+  }
+
+  private handleVolumeInput(e: Event) {
+    // The knob works in the 0-2 weight range.
+    this.volume = (e.target as WeightKnob).value / 2;
+    this.dispatchEvent(new CustomEvent<number>('volume-changed', { detail: this.volume }));
+  }
+
+  private handleCueVolumeInput(e: Event) {
+    this.cueVolume = (e.target as WeightKnob).value / 2;
+    this.dispatchEvent(new CustomEvent<number>('cue-volume-changed', { detail: this.cueVolume }));
+  }
+
+  private dispatchSettingsChange(settings: OutputSettings) {
+    this.settings = settings;
+    this.dispatchEvent(new CustomEvent<OutputSettings>('output-changed', { detail: settings }));
+  }
+
+  private renderOutputSelect(field: 'mainSinkId' | 'cueSinkId') {
+    const canSelect = supportsSinkSelection();
+    return html`<select
+      title=${canSelect ? 'Output device' : 'This browser cannot choose the audio output'}
+      ?disabled=${!canSelect}
+      @change=${(e: Event) => this.dispatchSettingsChange({
+        ...this.settings,
+        [field]: (e.target as HTMLSelectElement).value,
+      })}>
+      ${this.outputs.map((output) => html`<option
+        value=${output.deviceId}
+        ?selected=${output.deviceId === this.settings[field]}>${output.label}</option>`)}
+    </select>`;
+  }
+
+  override render() {
+    return html`
+      <div class="route">
+        <weight-knob
+          value=${this.volume * 2}
+          color="#ffffff"
+          @input=${this.handleVolumeInput}></weight-knob>
+        <span>Master</span>
+        <span class="value">${Math.round(this.volume * 100)}%</span>
+        ${this.renderOutputSelect('mainSinkId')}
+      </div>
+      <div class="route">
+        <weight-knob
+          value=${this.cueVolume * 2}
+          color="#ffb84d"
+          @input=${this.handleCueVolumeInput}></weight-knob>
+        <span>Cue</span>
+        <span class="value">${Math.round(this.cueVolume * 100)}%</span>
+        ${this.renderOutputSelect('cueSinkId')}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'output-panel': OutputPanel;
+  }
+}
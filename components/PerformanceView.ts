@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+
+import type { Beat, BeatDetector } from '../utils/BeatDetector';
+
+/** A prompt as the performance view draws it. */
+export interface PerformanceVoice {
+  text: string;
+  color: string;
+  weight: number;
+  /** Audio level driving the prompt, from 0 to about 1. */
+  level: number;
+}
+
+/** Share of each frame the last one fades by, leaving trails. */
+const TRAIL_FADE = 0.25;
+/** Brightness of the flash on a downbeat and on other beats. */
+const DOWNBEAT_FLASH = 0.2;
+const BEAT_FLASH = 0.1;
+const FLASH_DECAY = 0.85;
+const LABEL_SIZE = 14;
+
+/** A full-screen canvas of the prompts, each pulsing with its own level. */
+@customElement('performance-view')
+export class PerformanceView extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 10;
+      background: #000;
+    }
+    canvas {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+    button {
+      position: absolute;
+      top: 20px;
+      right: 20px;
+      font-family: 'Poppins', sans-serif;
+      color: #fff;
+      background: #ffffff26;
+      border: 1px solid #ffffff73;
+      border-radius: 8px;
+      padding: 6px 12px;
+      cursor: pointer;
+    }
+  `;
+
+  @property({ type: Array }) voices: PerformanceVoice[] = [];
+  @property({ type: Object }) beatDetector: BeatDetector | null = null;
+
+  @query('canvas') private canvas!: HTMLCanvasElement;
+
+  private flash = 0;
+
+  private readonly onBeat = (e: CustomEvent<Beat>) => {
+    this.flash = e.detail.beat === 0 ? DOWNBEAT_FLASH : BEAT_FLASH;
+  };
+
+  private readonly onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') this.close();
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.beatDetector?.addEventListener('beat', this.onBeat);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.beatDetector?.removeEventListener('beat', this.onBeat);
+    window.removeEventListener('keydown', this.onKeyDown);
+  }
+
+  private close() {
+    this.dispatchEvent(new CustomEvent('close'));
+  }
+
+  override updated() {
+    this.draw();
+  }
+
+  private draw() {
+    const ctx = this.canvas?.getContext('2d');
+    if (!ctx) return;
+    const width = this.canvas.clientWidth * devicePixelRatio;
+    const height = this.canvas.clientHeight * devicePixelRatio;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = `rgba(0, 0, 0, ${TRAIL_FADE})`;
+    ctx.fillRect(0, 0, width, height);
+    if (this.flash > 0.01) {
+      ctx.fillStyle = `rgba(255, 255, 255, ${this.flash})`;
+      ctx.fillRect(0, 0, width, height);
+      this.flash *= FLASH_DECAY;
+    }
+
+    // Prompts sit on a ring, each a glow sized by its weight and level.
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.font = `${LABEL_SIZE * devicePixelRatio}px Poppins, sans-serif`;
+    ctx.textAlign = 'center';
+    const size = Math.min(width, height);
+    const ring = this.voices.length > 1 ? size * 0.3 : 0;
+    this.voices.forEach((voice, i) => {
+      const angle = (i / this.voices.length) * Math.PI * 2 - Math.PI / 2;
+      const x = width / 2 + Math.cos(angle) * ring;
+      const y = height / 2 + Math.sin(angle) * ring;
+      const radius = size * 0.06 * (0.5 + voice.weight) * (1 + voice.level);
+      const glow = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      glow.addColorStop(0, voice.color);
+      glow.addColorStop(1, 'transparent');
+      ctx.fillStyle = glow;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#fffc';
+      ctx.fillText(voice.text, x, y + radius + LABEL_SIZE * devicePixelRatio);
+    });
+  }
+
+  override render() {
+    return html`
+      <canvas></canvas>
+      <button @click=${this.close} title="Back to the grid (Esc)">Close</button>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'performance-view': PerformanceView;
+  }
+}
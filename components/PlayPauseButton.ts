@@ -44,6 +44,9 @@ export class PlayPauseButton extends LitElement {
       transform-origin: center;
       transform-box: fill-box;
     }
+    .loader.reconnecting {
+      stroke: #ffdd28;
+    }
     @keyframes spin {
       from { transform: rotate(0deg); }
       to { transform: rotate(359deg); }
@@ -163,14 +166,15 @@ export class PlayPauseButton extends LitElement {
   }
 
   private renderLoading() {
-    return svg`<path shape-rendering="crispEdges" class="loader" d="M70,74.2L70,74.2c-10.7,0-19.5-8.7-19.5-19.5l0,0c0-10.7,8.7-19.5,19.5-19.5
+    const reconnecting = this.playbackState === 'reconnecting';
+    return svg`<path shape-rendering="crispEdges" class="loader ${reconnecting ? 'reconnecting' : ''}" d="M70,74.2L70,74.2c-10.7,0-19.5-8.7-19.5-19.5l0,0c0-10.7,8.7-19.5,19.5-19.5
             l0,0c10.7,0,19.5,8.7,19.5,19.5l0,0"/>`;
   }
 
   private renderIcon() {
     if (this.playbackState === 'playing') {
       return this.renderPause();
-    } else if (this.playbackState === 'loading') {
+    } else if (this.playbackState === 'loading' || this.playbackState === 'reconnecting') {
       return this.renderLoading();
     } else {
       return this.renderPlay();
@@ -3,14 +3,26 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { css, html, LitElement } from 'lit';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement, property, query, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 
 import './WeightKnob';
 import type { WeightKnob } from './WeightKnob';
 
 import type { MidiDispatcher } from '../utils/MidiDispatcher';
-import type { Prompt, ControlChange } from '../types';
+import { CC_MODE_LABELS, CcPositionReader, isRelative, LSB_OFFSET, mappedCcs } from '../utils/ccModes';
+import { BAND_LABELS, guessBand } from '../utils/promptBands';
+import {
+  CURVE_LABELS,
+  DEFAULT_MAX_WEIGHT,
+  DEFAULT_MIN_WEIGHT,
+  formatBreakpoints,
+  parseBreakpoints,
+  positionToWeight,
+  weightToPosition,
+} from '../utils/weightCurve';
+import type { WeightResponse } from '../utils/weightCurve';
+import type { CcMode, ControlChange, PromptBand, PromptChange, PromptChangeSource, WeightCurve } from '../types';
 
 /** A single prompt input associated with a MIDI CC. */
 @customElement('prompt-controller')
@@ -28,6 +40,48 @@ export class PromptController extends LitElement {
       width: 70%;
       flex-shrink: 0;
     }
+    #midi-row {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+      margin-top: 1vmin;
+      visibility: hidden;
+      .show-cc & {
+        visibility: visible;
+      }
+    }
+    #cc-mode, #pickup {
+      font-size: 1.2vmin;
+      color: #fff;
+      background: #0006;
+      border: 1px solid #fff8;
+      border-radius: 4px;
+      padding: 1px 2px;
+      cursor: pointer;
+    }
+    #band {
+      font-size: 1.2vmin;
+      color: #fff;
+      background: #0006;
+      border: 1px solid #fff8;
+      border-radius: 4px;
+      padding: 1px 2px;
+      cursor: pointer;
+      max-width: 7vmin;
+      option {
+        color: #000;
+      }
+    }
+    #cc-mode {
+      max-width: 6vmin;
+      option {
+        color: #000;
+      }
+    }
+    #pickup.active {
+      background: #fff;
+      color: #000;
+    }
     #midi {
       font-family: monospace;
       text-align: center;
@@ -38,16 +92,11 @@ export class PromptController extends LitElement {
       color: #fff;
       background: #0006;
       cursor: pointer;
-      visibility: hidden;
       user-select: none;
-      margin-top: 1vmin;
       .learn-mode & {
         color: #ffb84d;
         border-color: #ffb84d;
       }
-      .show-cc & {
-        visibility: visible;
-      }
     }
     #text {
       font-weight: 500;
@@ -75,6 +124,118 @@ export class PromptController extends LitElement {
         background: #ffffff33;
       }
     }
+    #edit-tools {
+      position: absolute;
+      top: 0;
+      left: 0;
+      right: 0;
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      z-index: 2;
+    }
+    #states {
+      display: flex;
+      gap: 0.4vmin;
+      margin-top: 0.75vmin;
+      button {
+        font-family: monospace;
+        font-size: 1.2vmin;
+        width: 2.4vmin;
+        padding: 0;
+        color: #fffa;
+        background: #0006;
+        border: 1px solid #fff6;
+        border-radius: 4px;
+        cursor: pointer;
+        &.active {
+          color: #000;
+        }
+      }
+      #mute.active {
+        background: #ff6b6b;
+      }
+      #solo.active {
+        background: #ffdd28;
+      }
+      #lock.active {
+        background: #fff;
+      }
+    }
+    #response-button {
+      font-size: 1.4vmin;
+      color: #fff;
+      background: #0006;
+      border: 1px solid #fff8;
+      border-radius: 4px;
+      padding: 0 0.5vmin;
+      cursor: pointer;
+      &.active {
+        background: #fff;
+        color: #000;
+      }
+    }
+    #response {
+      position: absolute;
+      top: 3vmin;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 3;
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.5vmin 1vmin;
+      align-items: center;
+      padding: 1vmin;
+      border-radius: 1vmin;
+      background: #000000cc;
+      border: 1px solid #fff6;
+      color: #fff;
+      font-size: 1.3vmin;
+      input, select {
+        font-size: 1.3vmin;
+        color: #fff;
+        background: #ffffff26;
+        border: 1px solid #fff8;
+        border-radius: 4px;
+        width: 10vmin;
+      }
+      option {
+        color: #000;
+      }
+    }
+    #drag-handle {
+      cursor: grab;
+      font-size: 2vmin;
+      line-height: 1;
+      user-select: none;
+    }
+    #color {
+      width: 2.5vmin;
+      height: 2.5vmin;
+      padding: 0;
+      border: 1px solid #fff8;
+      border-radius: 50%;
+      background: none;
+      cursor: pointer;
+      &::-webkit-color-swatch-wrapper {
+        padding: 0;
+      }
+      &::-webkit-color-swatch {
+        border: none;
+        border-radius: 50%;
+      }
+    }
+    #remove {
+      font-size: 1.4vmin;
+      color: #fff;
+      background: #0006;
+      border: 1px solid #fff8;
+      border-radius: 50%;
+      width: 2.5vmin;
+      height: 2.5vmin;
+      padding: 0;
+      cursor: pointer;
+    }
     :host([filtered]) {
       weight-knob { 
         opacity: 0.5;
@@ -99,15 +260,35 @@ export class PromptController extends LitElement {
   @property({ type: Number }) weight = 0;
   @property({ type: String }) color = '';
   @property({ type: Boolean, reflect: true }) filtered = false;
+  @property({ type: Boolean }) muted = false;
+  @property({ type: Boolean }) soloed = false;
+  @property({ type: Boolean }) locked = false;
+  /** Spectral band the halo follows, guessed from the text when unset. */
+  @property({ type: String }) band?: PromptBand;
+  /** Not heard because it is muted or another prompt is soloed. */
+  @property({ type: Boolean }) silenced = false;
 
   @property({ type: Number }) cc = 0;
-  @property({ type: Number }) channel = 0; // Not currently used
+  /** MIDI channel the CC is read from, any channel when unset. */
+  @property({ type: Number }) channel?: number;
+  /** MIDI input the CC is read from, any input when unset. */
+  @property({ type: String }) device?: string;
+  @property({ type: String }) ccMode: CcMode = 'absolute';
+  /** Soft takeover, so the CC only moves the weight once it reaches it. */
+  @property({ type: Boolean }) pickup = false;
+  @property({ type: Number }) minWeight = DEFAULT_MIN_WEIGHT;
+  @property({ type: Number }) maxWeight = DEFAULT_MAX_WEIGHT;
+  @property({ type: String }) curve: WeightCurve = 'linear';
+  @property({ type: Array }) breakpoints: Array<[number, number]> = [[0, 0], [1, 1]];
 
   @property({ type: Boolean }) learnMode = false;
   @property({ type: Boolean }) showCC = false;
+  /** Shows the drag handle, color picker, response editor and remove button. */
+  @property({ type: Boolean }) editMode = false;
+  @state() private showResponse = false;
 
   @query('weight-knob') private weightInput!: WeightKnob;
-  @query('#text') private textInput!: HTMLInputElement;
+  @query('#text') private textInput!: HTMLSpanElement;
 
   @property({ type: Object })
   midiDispatcher: MidiDispatcher | null = null;
@@ -115,33 +296,61 @@ export class PromptController extends LitElement {
   @property({ type: Number }) audioLevel = 0;
 
   private lastValidText!: string;
+  private readonly ccReader = new CcPositionReader();
+  /** The weight last set from MIDI, to tell it apart from other changes. */
+  private midiWeight: number | null = null;
+
+  private readonly onCcMessage = (e: CustomEvent<ControlChange>) => {
+    const { device, channel, cc, value } = e.detail;
+    if (this.learnMode) {
+      this.cc = cc;
+      this.channel = channel;
+      this.device = device;
+      this.learnMode = false;
+      this.dispatchPromptChange('midi');
+    } else if (
+      mappedCcs(this.cc, this.ccMode).includes(cc) &&
+      (this.channel === undefined || channel === this.channel) &&
+      (this.device === undefined || device === this.device)
+    ) {
+      const isLsb = cc !== this.cc;
+      const current = weightToPosition(this.response, this.weight);
+      const position = this.ccReader.read(this.ccMode, this.pickup, isLsb, value, current);
+      if (position === null) return;
+      const weight = positionToWeight(this.response, position);
+      if (weight === this.weight) return;
+      this.weight = weight;
+      this.midiWeight = weight;
+      this.dispatchPromptChange('midi');
+    }
+  };
+
+  private get response(): WeightResponse {
+    return {
+      minWeight: this.minWeight,
+      maxWeight: this.maxWeight,
+      curve: this.curve,
+      breakpoints: this.breakpoints,
+    };
+  }
 
   override connectedCallback() {
     super.connectedCallback();
-    this.midiDispatcher?.addEventListener('cc-message', (e: Event) => {
-      const customEvent = e as CustomEvent<ControlChange>;
-      const { channel, cc, value } = customEvent.detail;
-      if (this.learnMode) {
-        this.cc = cc;
-        this.channel = channel;
-        this.learnMode = false;
-        this.dispatchPromptChange();
-      } else if (cc === this.cc) {
-        this.weight = (value / 127) * 2;
-        this.dispatchPromptChange();
-      }
-    });
+    this.midiDispatcher?.addEventListener('cc-message', this.onCcMessage);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('cc-message', this.onCcMessage);
   }
 
   override firstUpdated() {
     // contenteditable is applied to textInput so we can "shrink-wrap" to text width
     // It's set here and not render() because Lit doesn't believe it's a valid attribute.
-    // FIX: Cast textInput to any to access setAttribute due to missing DOM types.
-    (this.textInput as any).setAttribute('contenteditable', 'plaintext-only');
+    this.textInput.setAttribute('contenteditable', 'plaintext-only');
 
     // contenteditable will do weird things if this is part of the template.
-    // FIX: Cast textInput to any to access textContent due to missing DOM types.
-    (this.textInput as any).textContent = this.text;
+    this.textInput.textContent = this.text;
     this.lastValidText = this.text;
   }
 
@@ -149,87 +358,218 @@ export class PromptController extends LitElement {
     if (changedProperties.has('showCC') && !this.showCC) {
       this.learnMode = false;
     }
+    if (changedProperties.has('editMode') && !this.editMode) {
+      this.showResponse = false;
+    }
+    if (changedProperties.has('weight') && this.weight !== this.midiWeight) {
+      this.ccReader.release();
+    }
     if (changedProperties.has('text') && this.textInput) {
-      // FIX: Cast textInput to any to access textContent due to missing DOM types.
-      (this.textInput as any).textContent = this.text;
+      this.textInput.textContent = this.text;
     }
     super.update(changedProperties);
   }
 
-  private dispatchPromptChange() {
-    // FIX: Cast this to any to access dispatchEvent due to missing DOM types.
-    (this as any).dispatchEvent(
-      new CustomEvent<Prompt>('prompt-changed', {
+  private dispatchPromptChange(source: PromptChangeSource) {
+    this.dispatchEvent(
+      new CustomEvent<PromptChange>('prompt-changed', {
         detail: {
           promptId: this.promptId,
           text: this.text,
           weight: this.weight,
           cc: this.cc,
+          channel: this.channel,
+          device: this.device,
+          ccMode: this.ccMode,
+          pickup: this.pickup,
+          minWeight: this.minWeight,
+          maxWeight: this.maxWeight,
+          curve: this.curve,
+          breakpoints: this.breakpoints,
+          muted: this.muted,
+          soloed: this.soloed,
+          locked: this.locked,
+          band: this.band,
           color: this.color,
+          source,
         },
       }),
     );
   }
 
   private onKeyDown(e: KeyboardEvent) {
-    // FIX: Cast event to any to access key property.
-    if ((e as any).key === 'Enter') {
+    if (e.key === 'Enter') {
       e.preventDefault();
-      // FIX: Cast textInput to any to access blur method due to missing DOM types.
-      (this.textInput as any).blur();
+      this.textInput.blur();
     }
-    // FIX: Cast event to any to access key property.
-    if ((e as any).key === 'Escape') {
+    if (e.key === 'Escape') {
       e.preventDefault();
       this.resetText();
-      // FIX: Cast textInput to any to access blur method due to missing DOM types.
-      (this.textInput as any).blur();
+      this.textInput.blur();
     }
   }
 
   private resetText() {
     this.text = this.lastValidText;
-    // FIX: Cast textInput to any to access textContent due to missing DOM types.
-    (this.textInput as any).textContent = this.lastValidText;
+    this.textInput.textContent = this.lastValidText;
   }
 
   private async updateText() {
-    // FIX: Cast textInput to any to access textContent due to missing DOM types.
-    const newText = (this.textInput as any).textContent?.trim();
+    const newText = this.textInput.textContent?.trim();
     if (!newText) {
       this.resetText();
     } else {
       this.text = newText;
       this.lastValidText = newText;
     }
-    this.dispatchPromptChange();
+    this.dispatchPromptChange('text');
     // Show the prompt from the beginning if it's cropped
-    // FIX: Cast textInput to any to access scrollLeft due to missing DOM types.
-    (this.textInput as any).scrollLeft = 0;
+    this.textInput.scrollLeft = 0;
   }
 
   private onFocus() {
     // .select() for contenteditable doesn't work.
-    // FIX: Cast window to any to access getSelection due to missing DOM types.
-    const selection = (window as any).getSelection();
+    const selection = window.getSelection();
     if (!selection) return;
-    // FIX: Cast document to any to access createRange due to missing DOM types.
-    // FIX: Use globalThis to access document as it is not defined in the current scope.
-    const range = (globalThis as any).document.createRange();
+    const range = document.createRange();
     range.selectNodeContents(this.textInput);
     selection.removeAllRanges();
     selection.addRange(range);
   }
 
   private updateWeight() {
-    this.weight = this.weightInput.value;
-    this.dispatchPromptChange();
+    // The knob travels 0-2 and stands for the control position.
+    this.weight = positionToWeight(this.response, this.weightInput.value / 2);
+    this.dispatchPromptChange('knob');
+  }
+
+  private toggleState(state: 'muted' | 'soloed' | 'locked') {
+    this[state] = !this[state];
+    this.dispatchPromptChange('edit');
+  }
+
+  private renderStates() {
+    return html`<div id="states">
+      <button id="mute" class=${this.muted ? 'active' : ''} title="Mute"
+        @click=${() => this.toggleState('muted')}>M</button>
+      <button id="solo" class=${this.soloed ? 'active' : ''} title="Solo"
+        @click=${() => this.toggleState('soloed')}>S</button>
+      <button id="lock" class=${this.locked ? 'active' : ''} title="Lock against presets and morphs"
+        @click=${() => this.toggleState('locked')}>L</button>
+    </div>`;
+  }
+
+  private updateRange(field: 'minWeight' | 'maxWeight', e: Event) {
+    const input = e.target as HTMLInputElement;
+    const value = Number(input.value);
+    const min = field === 'minWeight' ? value : this.minWeight;
+    const max = field === 'maxWeight' ? value : this.maxWeight;
+    if (!Number.isFinite(value) || min < 0 || min > max) {
+      input.value = String(this[field]);
+      return;
+    }
+    this[field] = value;
+    this.weight = Math.min(max, Math.max(min, this.weight));
+    this.dispatchPromptChange('edit');
+  }
+
+  private updateCurve(e: Event) {
+    this.curve = (e.target as HTMLSelectElement).value as WeightCurve;
+    this.dispatchPromptChange('edit');
+  }
+
+  private updateBreakpoints(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const breakpoints = parseBreakpoints(input.value);
+    if (!breakpoints) {
+      input.value = formatBreakpoints(this.breakpoints);
+      return;
+    }
+    this.breakpoints = breakpoints;
+    this.dispatchPromptChange('edit');
+  }
+
+  private renderResponseEditor() {
+    return html`<div id="response">
+      <label for="min-weight">Min</label>
+      <input id="min-weight" type="number" min="0" step="0.05"
+        .value=${String(this.minWeight)} @change=${(e: Event) => this.updateRange('minWeight', e)} />
+      <label for="max-weight">Max</label>
+      <input id="max-weight" type="number" min="0" step="0.05"
+        .value=${String(this.maxWeight)} @change=${(e: Event) => this.updateRange('maxWeight', e)} />
+      <label for="curve">Curve</label>
+      <select id="curve" @change=${this.updateCurve}>
+        ${Object.entries(CURVE_LABELS).map(([curve, label]) => html`<option
+          value=${curve}
+          ?selected=${curve === this.curve}>${label}</option>`)}
+      </select>
+      ${this.curve === 'custom' ? html`
+        <label for="breakpoints" title="position:amount pairs, both 0-1">Points</label>
+        <input id="breakpoints" type="text"
+          .value=${formatBreakpoints(this.breakpoints)} @change=${this.updateBreakpoints} />` : ''}
+    </div>`;
+  }
+
+  private describeMidi() {
+    const cc = `CC:${this.cc}`;
+    return this.channel === undefined ? cc : `Ch${this.channel + 1} ${cc}`;
+  }
+
+  private updateCcMode(e: Event) {
+    this.ccMode = (e.target as HTMLSelectElement).value as CcMode;
+    this.dispatchPromptChange('midi');
+  }
+
+  private togglePickup() {
+    this.pickup = !this.pickup;
+    this.ccReader.release();
+    this.dispatchPromptChange('midi');
   }
 
   private toggleLearnMode() {
     this.learnMode = !this.learnMode;
   }
 
+  private updateColor(e: Event) {
+    this.color = (e.target as HTMLInputElement).value;
+    this.dispatchPromptChange('edit');
+  }
+
+  private updateBand(e: Event) {
+    const value = (e.target as HTMLSelectElement).value;
+    this.band = value ? value as PromptBand : undefined;
+    this.dispatchPromptChange('edit');
+  }
+
+  private renderBandSelect() {
+    const guess = guessBand(this.text);
+    return html`<select id="band" title="Band the halo follows" @change=${this.updateBand}>
+      <option value="" ?selected=${!this.band}>Auto${guess ? ` (${BAND_LABELS[guess]})` : ''}</option>
+      ${Object.entries(BAND_LABELS).map(([band, label]) => html`<option
+        value=${band}
+        ?selected=${band === this.band}>${label}</option>`)}
+    </select>`;
+  }
+
+  private removePrompt() {
+    this.dispatchEvent(new CustomEvent<string>('prompt-removed', { detail: this.promptId }));
+  }
+
+  private renderEditTools() {
+    return html`<div id="edit-tools">
+      <span id="drag-handle" draggable="true" title="Drag to reorder">⠿</span>
+      <input id="color" type="color" .value=${this.color} @input=${this.updateColor} title="Color" />
+      <button
+        id="response-button"
+        class=${this.showResponse ? 'active' : ''}
+        title="Weight range and curve"
+        @click=${() => { this.showResponse = !this.showResponse; }}>∿</button>
+      ${this.renderBandSelect()}
+      <button id="remove" @click=${this.removePrompt} title="Remove prompt">✕</button>
+    </div>
+    ${this.showResponse ? this.renderResponseEditor() : ''}`;
+  }
+
   override render() {
     const classes = classMap({
       'prompt': true,
@@ -237,11 +577,12 @@ export class PromptController extends LitElement {
       'show-cc': this.showCC,
     });
     return html`<div class=${classes}>
+      ${this.editMode ? this.renderEditTools() : ''}
       <weight-knob
         id="weight"
-        value=${this.weight}
-        color=${this.filtered ? '#888' : this.color}
-        audioLevel=${this.filtered ? 0 : this.audioLevel}
+        value=${weightToPosition(this.response, this.weight) * 2}
+        color=${this.filtered || this.silenced ? '#888' : this.color}
+        audioLevel=${this.filtered || this.silenced ? 0 : this.audioLevel}
         @input=${this.updateWeight}></weight-knob>
       <span
         id="text"
@@ -249,8 +590,23 @@ export class PromptController extends LitElement {
         @focus=${this.onFocus}
         @keydown=${this.onKeyDown}
         @blur=${this.updateText}></span>
-      <div id="midi" @click=${this.toggleLearnMode}>
-        ${this.learnMode ? 'Learn' : `CC:${this.cc}`}
+      ${this.renderStates()}
+      <div id="midi-row">
+        <div id="midi" title=${this.device ?? 'Any MIDI input'} @click=${this.toggleLearnMode}>
+          ${this.learnMode ? 'Learn' : this.describeMidi()}
+        </div>
+        <select id="cc-mode" title="CC mode" @change=${this.updateCcMode}>
+          ${Object.entries(CC_MODE_LABELS).map(([mode, label]) => html`<option
+            value=${mode}
+            ?selected=${mode === this.ccMode}
+            ?disabled=${mode === '14-bit' && this.cc >= LSB_OFFSET}>${label}</option>`)}
+        </select>
+        <button
+          id="pickup"
+          class=${this.pickup ? 'active' : ''}
+          title="Soft takeover"
+          ?disabled=${isRelative(this.ccMode)}
+          @click=${this.togglePickup}>P</button>
       </div>
     </div>`;
   }
@@ -3,15 +3,114 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { css, html, LitElement, svg } from 'lit';
-import { customElement, property, state } from 'lit/decorators.js';
+import type { PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { repeat } from 'lit/directives/repeat.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
 import { throttle } from '../utils/throttle';
 
 import './PromptController';
 import './PlayPauseButton';
-import type { PlaybackState, Prompt } from '../types';
+import './MidiMappingPanel';
+import './TakeBrowser';
+import './AutomationPanel';
+import './SceneCrossfader';
+import type { SceneSlots } from './SceneCrossfader';
+import './MorphControls';
+import type { MorphSettings } from './MorphControls';
+import { CONFIG_KNOBS, denormalizeKnob } from './MusicConfigPanel';
+import './FxPanel';
+import './AudioVisualizer';
+import './PerformanceView';
+import './OutputPanel';
+import type { PerformanceVoice } from './PerformanceView';
+import { FX_KILLS, FX_KNOBS } from './FxPanel';
+import type {
+  FxSettings,
+  MusicConfig,
+  OutputSettings,
+  PlaybackState,
+  Preset,
+  Prompt,
+  PromptChange,
+  RecordingState,
+} from '../types';
+import type { AudioAnalyser, AudioAnalysis, BandLevels } from '../utils/AudioAnalyser';
+import { AutomationRecorder } from '../utils/AutomationRecorder';
+import type { Beat, BeatDetector, QuantizeUnit } from '../utils/BeatDetector';
+import { crossfadePrompts } from '../utils/crossfade';
+import type { CueOutput } from '../utils/CueOutput';
+import { downloadBlob } from '../utils/download';
+import { DEFAULT_BPM } from '../utils/MasterFxChain';
+import { PresetMorph } from '../utils/PresetMorph';
+import { BandNormalizer, promptBand } from '../utils/promptBands';
+import { decodePresetFragment, encodePresetFragment, parsePresetFile, serializePresetFile } from '../utils/presetFile';
 import { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiFeedback } from '../utils/MidiFeedback';
+import { DEFAULT_MAX_WEIGHT, DEFAULT_MIN_WEIGHT } from '../utils/weightCurve';
+import {
+  MidiMappingRegistry,
+  PAD_ACTION_LABELS,
+  PAD_ACTIONS,
+  padControlId,
+  parsePadControlId,
+} from '../utils/MidiMappingRegistry';
+import type { MidiControl, MidiControlEvent } from '../utils/MidiMappingRegistry';
+import type { TakeStore } from '../utils/TakeStore';
+import type { TypedListener } from '../utils/TypedEventTarget';
+
+/** App-wide controls that can be learned to a MIDI CC or note. */
+const GLOBAL_MIDI_CONTROLS: MidiControl[] = [
+  { id: 'play-pause', label: 'Play / Pause', kind: 'trigger' },
+  { id: 'preset-next', label: 'Next preset', kind: 'trigger' },
+  { id: 'preset-prev', label: 'Previous preset', kind: 'trigger' },
+  { id: 'record', label: 'Record / Stop', kind: 'trigger' },
+  { id: 'crossfader', label: 'Scene crossfader', kind: 'continuous' },
+  { id: 'morph', label: 'Start / cancel morph', kind: 'trigger' },
+  { id: 'volume', label: 'Master volume', kind: 'continuous' },
+  ...CONFIG_KNOBS.map((spec): MidiControl => ({
+    id: `config:${spec.param}`,
+    label: spec.label,
+    kind: 'continuous',
+  })),
+  ...FX_KNOBS.map((spec): MidiControl => ({
+    id: `fx:${spec.param}`,
+    label: `FX ${spec.label}`,
+    kind: 'continuous',
+  })),
+  ...FX_KILLS.map((kill): MidiControl => ({
+    id: `fx:${kill.param}`,
+    label: `FX ${kill.label}`,
+    kind: 'trigger',
+  })),
+];
+
+/** Length of the background pulse on each beat. */
+const BEAT_PULSE_MS = 200;
+
+/** Grids can grow up to one prompt per MIDI CC number, capped for layout. */
+const MAX_PROMPTS = 64;
+
+/** Colors handed out to newly added prompts, in turn. */
+const PROMPT_COLORS = [
+  '#9900ff', '#5200ff', '#ff25f6', '#2af6de',
+  '#ffdd28', '#3dffab', '#d8ff3e', '#d9b2ff',
+];
+
+export interface PromptDjMidiEventMap {
+  /** The prompts to play, with pad holds and expression applied. */
+  'prompts-changed': Map<string, Prompt>;
+  'config-changed': MusicConfig;
+  'fx-changed': FxSettings;
+  'volume-changed': number;
+  'output-changed': OutputSettings;
+  'cue-volume-changed': number;
+  'play-pause': void;
+  'record-toggle': void;
+  'error': string;
+  'notice': string;
+}
 
 /** The grid of prompt inputs. */
 @customElement('prompt-dj-midi')
@@ -57,15 +156,29 @@ export class PromptDjMidi extends LitElement {
       width: 80vmin;
       height: 80vmin;
       display: grid;
-      grid-template-columns: repeat(4, 1fr);
       gap: 2.5vmin;
     }
     prompt-controller {
       width: 100%;
+      &.drop-target {
+        outline: 2px dashed #fffa;
+        outline-offset: 0.5vmin;
+        border-radius: 1vmin;
+      }
+    }
+    #add-prompt {
+      width: 100%;
+      height: 100%;
+      font-size: 4vmin;
+      font-weight: 300;
+      border-style: dashed;
     }
     play-pause-button {
       width: 15vmin;
     }
+    scene-crossfader {
+      width: 80vmin;
+    }
     #header {
       position: absolute;
       top: 20px;
@@ -84,12 +197,63 @@ export class PromptDjMidi extends LitElement {
       -webkit-backdrop-filter: var(--glass-blur);
       backdrop-filter: var(--glass-blur);
     }
-    #midi-controls, #preset-controls {
+    music-config-panel, fx-panel, output-panel, audio-visualizer {
+      margin-bottom: 1vmin;
+    }
+    midi-mapping-panel {
+      position: absolute;
+      top: calc(100% + 10px);
+      right: 0;
+      width: 260px;
+    }
+    automation-panel {
+      position: absolute;
+      top: calc(100% + 10px);
+      left: 0;
+      width: 300px;
+    }
+    take-browser {
+      position: absolute;
+      top: calc(100% + 10px);
+      left: 50%;
+      transform: translateX(-50%);
+      width: 420px;
+    }
+    #record-button {
+      &.armed {
+        color: #ff4d4d;
+        animation: blink 1s steps(2, start) infinite;
+      }
+      &.recording {
+        background: #da2000;
+        border-color: #da2000;
+      }
+    }
+    @keyframes blink {
+      to { visibility: hidden; }
+    }
+    #midi-inputs {
+      display: flex;
+      gap: 6px;
+      align-items: center;
+      button {
+        max-width: 14vmin;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+    }
+    #tempo {
+      min-width: 8ch;
+      font-family: monospace;
+      white-space: nowrap;
+    }
+    #midi-controls, #preset-controls, #record-controls {
       display: flex;
       gap: 10px;
       align-items: center;
     }
-    button, select {
+    button, select, label.icon-button {
       font-family: 'Poppins', sans-serif;
       font-weight: 500;
       cursor: pointer;
@@ -138,138 +302,656 @@ export class PromptDjMidi extends LitElement {
     .icon-button:disabled svg {
       fill: #fffa;
     }
+    #import-input {
+      display: none;
+    }
+    #drop-overlay {
+      position: absolute;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: 3vmin;
+      font-weight: 600;
+      background: #000000b3;
+      border: 3px dashed #ffffffb3;
+      pointer-events: none;
+      z-index: 10;
+    }
   `;
 
-  private readonly PRESETS_STORAGE_KEY = 'prompt-dj-presets-v2';
-  @state() private presets: Map<string, Map<string, Prompt>> = new Map();
+  @query('#preset-controls select') private presetSelect!: HTMLSelectElement;
+  @query('#background') private backgroundElement!: HTMLElement;
+
+  private readonly PRESETS_STORAGE_KEY = 'prompt-dj-presets-v3';
+  /** Presets saved before the versioned file schema, migrated on load. */
+  private readonly LEGACY_PRESETS_STORAGE_KEY = 'prompt-dj-presets-v2';
+  @state() private presets: Map<string, Preset> = new Map();
   @state() private activePresetName = '';
-  private readonly defaultPresets: Map<string, Map<string, Prompt>>;
+  private readonly defaultPresets: Map<string, Preset>;
 
   private prompts: Map<string, Prompt>;
+  @state() private config: MusicConfig = {};
+  @state() private fx: FxSettings = {};
+  @state() private background = '';
   private midiDispatcher: MidiDispatcher;
+  private midiMappings: MidiMappingRegistry;
+  private midiFeedback: MidiFeedback;
 
   @property({ type: Boolean }) private showMidi = false;
+  @state() private showMidiMappings = false;
+  @state() private showConfig = false;
+  @state() private showFx = false;
   @property({ type: String }) public playbackState: PlaybackState = 'stopped';
+  @property({ type: String }) public recordingState: RecordingState = 'idle';
+  @property({ type: Object }) public takeStore: TakeStore | null = null;
+  @property({ type: Object }) public cueOutput: CueOutput | null = null;
+  @state() private showOutputs = false;
+  /** Master volume, from 0 to 1. */
+  @state() private volume = 1;
+  @state() private outputs: OutputSettings = { mainSinkId: '', cueSinkId: '' };
+  @state() private cueVolume = 1;
+  @property({ type: Object }) public audioAnalyser: AudioAnalyser | null = null;
+  @state() private showVisualizer = false;
+  @property({ type: Object }) public beatDetector: BeatDetector | null = null;
+  /** Preset switches, morphs and pad toggles wait for the next beat or bar. */
+  @state() private quantize: QuantizeUnit | 'off' = 'off';
+  /** Aligns the beat grid to the configured BPM instead of estimating it. */
+  @state() private syncToBpm = false;
+  @state() private tempo: number | null = null;
+  /** Halos follow each prompt's spectral band instead of the overall level. */
+  @state() private bandMode = false;
+  @state() private bandLevels: BandLevels | null = null;
+  private readonly bandNormalizer = new BandNormalizer();
+  @state() private showPerformance = false;
+  private readonly quantizeTimers = new Set<number>();
+  @state() private showTakes = false;
+  @state() private dropActive = false;
+  @state() private editGrid = false;
+  @state() private dragPromptId: string | null = null;
+  @state() private dropTargetId: string | null = null;
+  @state() private showAutomation = false;
+  private automation: AutomationRecorder;
+  @state() private showScenes = false;
+  @state() private scenes: SceneSlots = { a: '', b: '' };
+  @state() private crossfadePosition = 0;
+  @state() private showMorph = false;
+  @state() private morphSettings: MorphSettings = {
+    target: '',
+    length: 4,
+    unit: 'bars',
+    easing: 's-curve',
+  };
+  @state() private morphProgress: number | null = null;
+  private morph: PresetMorph | null = null;
   @state() public audioLevel = 0;
   @state() private midiInputIds: string[] = [];
-  @state() private activeMidiInputId: string | null = null;
+  @state() private enabledMidiInputIds: string[] = [];
+  /** Prompts whose pads are held down. */
+  private readonly heldPads = new Set<string>();
+  /** Prompts soloed for as long as their pad is held. */
+  private readonly soloPads = new Set<string>();
+  /** Pitch bend or aftertouch, from -1 to 1, scaling the held pads' weights. */
+  private expression = 0;
+  /** Weights of prompts a pad toggled off, restored when toggled back on. */
+  private readonly toggledWeights = new Map<string, number>();
 
   @property({ type: Object })
   private filteredPrompts = new Set<string>();
 
   constructor(
-    defaultPresets: Map<string, Map<string, Prompt>>,
+    defaultPresets: Map<string, Preset>,
   ) {
     super();
     this.defaultPresets = defaultPresets;
-    this.activePresetName = this.defaultPresets.keys().next().value;
-    this.prompts = new Map(this.defaultPresets.get(this.activePresetName)!);
+    this.activePresetName = this.defaultPresets.keys().next().value!;
+    const preset = this.defaultPresets.get(this.activePresetName)!;
+    this.prompts = new Map(preset.prompts);
+    this.config = { ...preset.config };
+    this.fx = { ...preset.fx };
     this.midiDispatcher = new MidiDispatcher();
+    this.midiDispatcher.addEventListener('inputs-changed', () => this.refreshMidiInputs());
+    this.midiDispatcher.addEventListener('program-change-message', (e) => {
+      this.selectPresetByIndex(e.detail.program);
+    });
+    this.midiDispatcher.addEventListener('pitch-bend-message', (e) => {
+      this.setExpression(e.detail.value);
+    });
+    this.midiDispatcher.addEventListener('pressure-message', (e) => {
+      this.setExpression(e.detail.pressure / 127);
+    });
+    this.midiMappings = new MidiMappingRegistry(this.midiDispatcher);
+    this.midiMappings.addEventListener('midi-trigger', (e) => {
+      this.handleMidiTrigger(e.detail);
+    });
+    this.midiMappings.addEventListener('midi-control', (e) => {
+      this.handleMidiControl(e.detail);
+    });
+    this.midiFeedback = new MidiFeedback(this.midiDispatcher, this.midiMappings);
+    this.midiMappings.addEventListener('midi-release', (e) => {
+      this.handleMidiRelease(e.detail);
+    });
+    this.automation = new AutomationRecorder();
+    this.automation.addEventListener('automation-prompts', (e) => {
+      this.applyAutomation(e.detail);
+    });
+    this.automation.addEventListener('error', (e) => {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.detail }));
+    });
+  }
+
+  override willUpdate(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has('playbackState')) {
+      this.automation.setPlaying(this.playbackState === 'playing');
+    }
+    if (changedProperties.has('audioAnalyser')) {
+      changedProperties.get('audioAnalyser')?.removeEventListener('audio-analysis', this.onAnalysis);
+      this.audioAnalyser?.addEventListener('audio-analysis', this.onAnalysis);
+    }
+    if (changedProperties.has('beatDetector')) {
+      const previous = changedProperties.get('beatDetector');
+      previous?.removeEventListener('beat', this.onBeat);
+      previous?.removeEventListener('tempo-changed', this.onTempoChanged);
+      this.beatDetector?.addEventListener('beat', this.onBeat);
+      this.beatDetector?.addEventListener('tempo-changed', this.onTempoChanged);
+      this.tempo = this.beatDetector?.bpm ?? null;
+      this.updateReferenceBpm();
+    }
+    // The trailing call renders again once weights stop changing.
+    this.updateBackground();
+  }
+
+  override updated() {
+    // Set after the options render, so a newly saved preset can be selected.
+    this.presetSelect.value = this.activePresetName;
   }
 
   override connectedCallback() {
     super.connectedCallback();
+    this.beatDetector?.addEventListener('beat', this.onBeat);
+    this.beatDetector?.addEventListener('tempo-changed', this.onTempoChanged);
+    this.audioAnalyser?.addEventListener('audio-analysis', this.onAnalysis);
     this.loadPresets();
+    this.addEventListener('dragover', this.handleDragOver);
+    this.addEventListener('dragleave', this.handleDragLeave);
+    this.addEventListener('drop', this.handleDrop);
+    this.importFromUrl();
   }
 
-  private serializePresets(presets: Map<string, Map<string, Prompt>>): string {
-    const obj: Record<string, Array<[string, Prompt]>> = {};
-    for (const [name, promptMap] of presets.entries()) {
-      obj[name] = Array.from(promptMap.entries());
-    }
-    return JSON.stringify(obj);
-  }
-
-  private deserializePresets(jsonString: string): Map<string, Map<string, Prompt>> {
-    const obj: Record<string, Array<[string, Prompt]>> = JSON.parse(jsonString);
-    const presets = new Map<string, Map<string, Prompt>>();
-    for (const name in obj) {
-      if (Object.hasOwn(obj, name)) {
-        presets.set(name, new Map(obj[name]));
-      }
-    }
-    return presets;
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.updateBackground.cancel();
+    this.beatDetector?.removeEventListener('beat', this.onBeat);
+    this.beatDetector?.removeEventListener('tempo-changed', this.onTempoChanged);
+    this.audioAnalyser?.removeEventListener('audio-analysis', this.onAnalysis);
+    for (const timer of this.quantizeTimers) clearTimeout(timer);
+    this.quantizeTimers.clear();
+    this.removeEventListener('dragover', this.handleDragOver);
+    this.removeEventListener('dragleave', this.handleDragLeave);
+    this.removeEventListener('drop', this.handleDrop);
   }
 
   private savePresetsToStorage() {
-    const userPresets = new Map<string, Map<string, Prompt>>();
-    for (const [name, presetMap] of this.presets.entries()) {
+    const userPresets = new Map<string, Preset>();
+    for (const [name, preset] of this.presets.entries()) {
       if (!this.defaultPresets.has(name)) {
-        userPresets.set(name, presetMap);
+        userPresets.set(name, preset);
       }
     }
-    localStorage.setItem(this.PRESETS_STORAGE_KEY, this.serializePresets(userPresets));
+    localStorage.setItem(this.PRESETS_STORAGE_KEY, serializePresetFile(userPresets));
     this.requestUpdate();
   }
 
   private loadPresets() {
-    const storedPresets = localStorage.getItem(this.PRESETS_STORAGE_KEY);
-    const userPresets = storedPresets ? this.deserializePresets(storedPresets) : new Map();
+    const stored = localStorage.getItem(this.PRESETS_STORAGE_KEY)
+      ?? localStorage.getItem(this.LEGACY_PRESETS_STORAGE_KEY);
+    let userPresets = new Map<string, Preset>();
+    let loaded = false;
+    try {
+      if (stored) userPresets = parsePresetFile(stored);
+      loaded = true;
+    } catch (e) {
+      console.error('Unable to load saved presets', e);
+    }
     this.presets = new Map([...this.defaultPresets, ...userPresets]);
+    // Migrates legacy presets, leaving them in place if they didn't parse.
+    if (stored && loaded && !localStorage.getItem(this.PRESETS_STORAGE_KEY)) {
+      this.savePresetsToStorage();
+    }
+    this.loadActivePreset();
+  }
+
+  /** Adds presets to the bank, renaming any that clash with existing ones. */
+  private importPresets(imported: Map<string, Preset>) {
+    let firstName: string | null = null;
+    for (const [name, preset] of imported) {
+      let uniqueName = name;
+      for (let i = 2; this.presets.has(uniqueName); i++) {
+        uniqueName = `${name} (${i})`;
+      }
+      this.presets.set(uniqueName, preset);
+      firstName ??= uniqueName;
+    }
+    if (!firstName) return;
+    this.activePresetName = firstName;
     this.loadActivePreset();
+    this.savePresetsToStorage();
+  }
+
+  private async importFiles(files: FileList | null) {
+    for (const file of files ?? []) {
+      try {
+        this.importPresets(parsePresetFile(await file.text()));
+      } catch (e) {
+        this.dispatchEvent(new CustomEvent('error', { detail: `${file.name}: ${(e as Error).message}` }));
+      }
+    }
+  }
+
+  private async importFromUrl() {
+    try {
+      const presets = await decodePresetFragment(window.location.hash);
+      if (!presets) return;
+      this.importPresets(presets);
+    } catch (e) {
+      this.dispatchEvent(new CustomEvent('error', { detail: (e as Error).message }));
+    }
+    // Clear a bad link too, or every reload would fail on it again.
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+
+  private readonly handleDragOver = (e: DragEvent) => {
+    if (!e.dataTransfer?.types.includes('Files')) return;
+    e.preventDefault();
+    this.dropActive = true;
+  };
+
+  private readonly handleDragLeave = () => {
+    this.dropActive = false;
+  };
+
+  private readonly handleDrop = (e: DragEvent) => {
+    if (!e.dataTransfer?.types.includes('Files')) return;
+    e.preventDefault();
+    this.dropActive = false;
+    this.importFiles(e.dataTransfer?.files ?? null);
+  };
+
+  private handleImportInput(e: Event) {
+    const input = e.target as HTMLInputElement;
+    this.importFiles(input.files).then(() => {
+      input.value = '';
+    });
+  }
+
+  private downloadPresets(presets: Map<string, Preset>, filename: string) {
+    downloadBlob(new Blob([serializePresetFile(presets, 2)], { type: 'application/json' }), filename);
+  }
+
+  /** The active preset name with the grid and config as they are now. */
+  private currentPresetSnapshot(): Map<string, Preset> {
+    return new Map([[this.activePresetName, {
+      prompts: new Map([...this.prompts].map(([id, p]) => [id, { ...p }])),
+      config: { ...this.config },
+      fx: { ...this.fx },
+    }]]);
+  }
+
+  private exportCurrentPreset() {
+    this.downloadPresets(this.currentPresetSnapshot(), `${this.activePresetName}.preset.json`);
+  }
+
+  private exportAllPresets() {
+    this.downloadPresets(this.presets, 'prompt-dj-presets.json');
+  }
+
+  private async sharePreset() {
+    let fragment: string;
+    try {
+      fragment = await encodePresetFragment(this.currentPresetSnapshot());
+    } catch (e) {
+      this.dispatchEvent(new CustomEvent('error', { detail: `Unable to share the preset: ${(e as Error).message}` }));
+      return;
+    }
+    const url = `${window.location.origin}${window.location.pathname}#${fragment}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      this.dispatchEvent(new CustomEvent('notice', { detail: 'Preset link copied to the clipboard.' }));
+    } catch {
+      window.prompt('Copy this link to share the preset:', url);
+    }
+  }
+
+  /**
+   * Replaces prompts in an incoming set with the current locked prompts, in
+   * their slot if the set has it and added at the end otherwise.
+   */
+  private withLockedPrompts(prompts: Map<string, Prompt>): Map<string, Prompt> {
+    const result = new Map(prompts);
+    for (const prompt of this.prompts.values()) {
+      if (prompt.locked) result.set(prompt.promptId, prompt);
+    }
+    return result;
   }
 
   private loadActivePreset() {
-    const presetPrompts = this.presets.get(this.activePresetName);
-    if (presetPrompts) {
-      this.prompts = new Map(presetPrompts);
-      // FIX: Cast `this` to `any` to call dispatchEvent due to missing DOM types.
-      (this as any).dispatchEvent(
-        new CustomEvent('prompts-changed', { detail: this.prompts }),
-      );
+    this.morph?.cancel();
+    const preset = this.presets.get(this.activePresetName);
+    if (preset) {
+      this.prompts = this.withLockedPrompts(preset.prompts);
+      this.dispatchPromptsChanged();
+      this.automation.capture(this.prompts, 'preset');
+      this.setConfig({ ...preset.config });
+      if (preset.fx) this.setFx({ ...preset.fx });
       this.requestUpdate();
     }
   }
 
+  private setConfig(config: MusicConfig) {
+    this.config = config;
+    this.updateReferenceBpm();
+    this.dispatchEvent(
+      new CustomEvent<MusicConfig>('config-changed', { detail: this.config }),
+    );
+  }
+
+  private handleConfigChanged(e: CustomEvent<MusicConfig>) {
+    this.setConfig(e.detail);
+  }
+
+  private setFx(fx: FxSettings) {
+    this.fx = fx;
+    this.dispatchEvent(new CustomEvent<FxSettings>('fx-changed', { detail: this.fx }));
+  }
+
+  private handleFxChanged(e: CustomEvent<FxSettings>) {
+    this.setFx(e.detail);
+  }
+
+  private setVolume(volume: number) {
+    this.volume = volume;
+    this.dispatchEvent(new CustomEvent<number>('volume-changed', { detail: volume }));
+  }
+
+  private handleVolumeChanged(e: CustomEvent<number>) {
+    this.setVolume(e.detail);
+  }
+
+  private handleCueVolumeChanged(e: CustomEvent<number>) {
+    this.cueVolume = e.detail;
+    this.dispatchEvent(new CustomEvent<number>('cue-volume-changed', { detail: this.cueVolume }));
+  }
+
+  private handleOutputChanged(e: CustomEvent<OutputSettings>) {
+    this.outputs = e.detail;
+    this.dispatchEvent(new CustomEvent<OutputSettings>('output-changed', { detail: this.outputs }));
+  }
+
+  private stepPreset(direction: 1 | -1) {
+    const names = [...this.presets.keys()];
+    const index = names.indexOf(this.activePresetName);
+    this.switchPreset(names[(index + direction + names.length) % names.length]);
+  }
+
+  /** Program Change selects the preset at that position in the list. */
+  private selectPresetByIndex(index: number) {
+    const name = [...this.presets.keys()][index];
+    if (!name || name === this.activePresetName) return;
+    this.switchPreset(name);
+  }
+
+  private switchPreset(name: string) {
+    this.quantized(() => {
+      this.activePresetName = name;
+      this.loadActivePreset();
+    });
+  }
+
+  /** Runs the action now, or on the next beat or bar while quantizing. */
+  private quantized(action: () => void) {
+    const delay = this.quantize === 'off' ? null : this.beatDetector?.msUntilNext(this.quantize) ?? null;
+    if (delay === null) return action();
+    const timer = window.setTimeout(() => {
+      this.quantizeTimers.delete(timer);
+      action();
+    }, delay);
+    this.quantizeTimers.add(timer);
+  }
+
+  private handleQuantizeChange(e: Event) {
+    this.quantize = (e.target as HTMLSelectElement).value as QuantizeUnit | 'off';
+  }
+
+  private toggleSyncToBpm() {
+    this.syncToBpm = !this.syncToBpm;
+    this.updateReferenceBpm();
+  }
+
+  private updateReferenceBpm() {
+    this.beatDetector?.setReferenceBpm(this.syncToBpm ? this.config.bpm ?? DEFAULT_BPM : null);
+  }
+
+  private readonly onBeat = (e: CustomEvent<Beat>) => {
+    // Downbeats pulse harder.
+    const brightness = e.detail.beat === 0 ? 1.6 : 1.3;
+    this.backgroundElement?.animate?.(
+      [{ filter: `brightness(${brightness})` }, { filter: 'brightness(1)' }],
+      { duration: BEAT_PULSE_MS, easing: 'ease-out' },
+    );
+  };
+
+  private readonly onTempoChanged = (e: CustomEvent<number | null>) => {
+    this.tempo = e.detail;
+  };
+
+  private readonly onAnalysis = (e: CustomEvent<AudioAnalysis>) => {
+    if (this.bandMode) this.bandLevels = this.bandNormalizer.normalize(e.detail.bands);
+  };
+
+  private toggleBandMode() {
+    this.bandMode = !this.bandMode;
+    this.bandLevels = null;
+    this.bandNormalizer.reset();
+  }
+
+  private toggleShowPerformance() {
+    this.showPerformance = !this.showPerformance;
+  }
+
+  /** The level a prompt's halo follows: its band's in band mode, the overall one otherwise. */
+  private promptAudioLevel(prompt: Prompt) {
+    const band = this.bandMode && this.bandLevels ? promptBand(prompt) : null;
+    return band ? this.bandLevels![band] : this.audioLevel;
+  }
+
+  /** Per-prompt pad controls, so pads can toggle or momentarily solo a prompt. */
+  private getPadControls(): MidiControl[] {
+    return [...this.prompts.values()].flatMap((prompt) => PAD_ACTIONS.map((action): MidiControl => ({
+      id: padControlId(action, prompt.promptId),
+      label: `${PAD_ACTION_LABELS[action]} ${prompt.text}`,
+      kind: 'trigger',
+    })));
+  }
+
+  /** Turns a prompt off, or back on at the weight it had. */
+  private togglePrompt(promptId: string) {
+    const prompt = this.prompts.get(promptId)!;
+    if (prompt.weight > 0) this.toggledWeights.set(promptId, prompt.weight);
+    const weight = prompt.weight > 0 ? 0 : this.toggledWeights.get(promptId) ?? 1;
+    this.prompts = new Map(this.prompts).set(promptId, { ...prompt, weight });
+    this.requestUpdate();
+    this.dispatchPromptsChanged();
+    this.automation.capture(this.prompts, 'midi');
+  }
+
+  private toggleFlag(promptId: string, flag: 'muted' | 'soloed' | 'locked') {
+    const prompt = this.prompts.get(promptId)!;
+    this.prompts = new Map(this.prompts).set(promptId, { ...prompt, [flag]: !prompt[flag] });
+    this.requestUpdate();
+    this.dispatchPromptsChanged();
+    this.automation.capture(this.prompts, 'midi');
+  }
+
+  private setExpression(expression: number) {
+    this.expression = Math.max(-1, Math.min(1, expression));
+    if (this.heldPads.size > 0) this.dispatchPromptsChanged();
+  }
+
+  /**
+   * The prompts as sent to the model: held solo pads silence every other
+   * prompt, and expression boosts or cuts the held pads. Neither is saved.
+   */
+  private getPerformedPrompts(): Map<string, Prompt> {
+    if (this.soloPads.size === 0 && (this.heldPads.size === 0 || this.expression === 0)) {
+      return this.prompts;
+    }
+    const performed = new Map<string, Prompt>();
+    for (const [promptId, prompt] of this.prompts) {
+      let weight = prompt.weight;
+      if (this.soloPads.size > 0 && !this.soloPads.has(promptId)) {
+        weight = 0;
+      } else if (this.heldPads.has(promptId)) {
+        const min = prompt.minWeight ?? DEFAULT_MIN_WEIGHT;
+        const max = prompt.maxWeight ?? DEFAULT_MAX_WEIGHT;
+        weight = Math.max(min, Math.min(max, weight * (1 + this.expression)));
+      }
+      performed.set(promptId, { ...prompt, weight });
+    }
+    return performed;
+  }
+
+  private dispatchPromptsChanged() {
+    this.midiFeedback.update(this.prompts);
+    this.dispatchEvent(
+      new CustomEvent('prompts-changed', { detail: this.getPerformedPrompts() }),
+    );
+  }
+
+  private handleMidiTrigger({ controlId }: MidiControlEvent) {
+    const pad = parsePadControlId(controlId);
+    if (pad && this.prompts.has(pad.promptId)) {
+      this.heldPads.add(pad.promptId);
+      const { promptId } = pad;
+      switch (pad.action) {
+        case 'toggle':
+          return this.quantized(() => this.togglePrompt(promptId));
+        case 'mute':
+          return this.quantized(() => this.toggleFlag(promptId, 'muted'));
+        case 'solo-latch':
+          return this.quantized(() => this.toggleFlag(promptId, 'soloed'));
+      }
+      this.soloPads.add(pad.promptId);
+      return this.dispatchPromptsChanged();
+    }
+    switch (controlId) {
+      case 'play-pause':
+        return this.playPause();
+      case 'preset-next':
+        return this.stepPreset(1);
+      case 'preset-prev':
+        return this.stepPreset(-1);
+      case 'record':
+        return this.toggleRecording();
+      case 'morph':
+        return this.morph?.running ? this.morph.cancel() : this.quantized(() => this.startMorph());
+    }
+    const kill = FX_KILLS.find((kill) => controlId === `fx:${kill.param}`);
+    if (kill) {
+      this.setFx({ ...this.fx, [kill.param]: !this.fx[kill.param] });
+    }
+  }
+
+  private handleMidiRelease({ controlId }: MidiControlEvent) {
+    const pad = parsePadControlId(controlId);
+    if (!pad) return;
+    this.heldPads.delete(pad.promptId);
+    const wasSoloed = this.soloPads.delete(pad.promptId);
+    if (wasSoloed || this.expression !== 0) this.dispatchPromptsChanged();
+  }
+
+  private handleMidiControl({ controlId, value }: MidiControlEvent) {
+    if (controlId === 'crossfader') {
+      this.showScenes = true;
+      this.setCrossfade(value);
+      return;
+    }
+    if (controlId === 'volume') {
+      this.setVolume(value);
+      return;
+    }
+    const spec = CONFIG_KNOBS.find((spec) => controlId === `config:${spec.param}`);
+    if (spec) {
+      this.setConfig({ ...this.config, [spec.param]: denormalizeKnob(spec, value) });
+      return;
+    }
+    const fxSpec = FX_KNOBS.find((spec) => controlId === `fx:${spec.param}`);
+    if (fxSpec) {
+      this.setFx({ ...this.fx, [fxSpec.param]: denormalizeKnob(fxSpec, value) });
+    }
+  }
+
+  private toggleShowConfig() {
+    this.showConfig = !this.showConfig;
+  }
+
+  private toggleShowFx() {
+    this.showFx = !this.showFx;
+  }
+
+  private toggleShowOutputs() {
+    this.showOutputs = !this.showOutputs;
+  }
+
+  private toggleShowVisualizer() {
+    this.showVisualizer = !this.showVisualizer;
+  }
+
   private handlePresetChange(e: Event) {
-    // FIX: Cast `e.target` to `any` to access value property.
-    this.activePresetName = (e.target as any).value;
-    this.loadActivePreset();
+    this.switchPreset((e.target as HTMLSelectElement).value);
   }
   
   private saveCurrentPreset() {
-    // FIX: Cast `window` to `any` to call prompt due to missing DOM types.
-    let name = (window as any).prompt('Save preset as:');
+    let name = window.prompt('Save preset as:');
     if (!name) return;
     name = name.trim();
     if (!name) return;
 
     if (this.defaultPresets.has(name)) {
-      // FIX: Cast `window` to `any` to call alert due to missing DOM types.
-      (window as any).alert(`Cannot overwrite default preset "${name}". Please choose a different name.`);
+      window.alert(`Cannot overwrite default preset "${name}". Please choose a different name.`);
       return;
     }
 
     if (this.presets.has(name) && !this.defaultPresets.has(name)) {
-      // FIX: Cast `window` to `any` to call confirm due to missing DOM types.
-      if (!(window as any).confirm(`Preset "${name}" already exists. Overwrite?`)) {
+      if (!window.confirm(`Preset "${name}" already exists. Overwrite?`)) {
         return;
       }
     }
     
-    this.presets.set(name, new Map(this.prompts));
+    this.presets.set(name, {
+      prompts: new Map(this.prompts),
+      config: { ...this.config },
+      fx: { ...this.fx },
+    });
     this.activePresetName = name;
     this.savePresetsToStorage();
   }
 
   private deleteCurrentPreset() {
     if (this.defaultPresets.has(this.activePresetName)) {
-      // FIX: Cast `window` to `any` to call alert due to missing DOM types.
-      (window as any).alert('Cannot delete a default preset.');
+      window.alert('Cannot delete a default preset.');
       return;
     }
 
-    // FIX: Cast `window` to `any` to call confirm due to missing DOM types.
-    if ((window as any).confirm(`Are you sure you want to delete the "${this.activePresetName}" preset?`)) {
+    if (window.confirm(`Are you sure you want to delete the "${this.activePresetName}" preset?`)) {
       this.presets.delete(this.activePresetName);
-      this.activePresetName = this.defaultPresets.keys().next().value;
+      this.activePresetName = this.defaultPresets.keys().next().value!;
       this.loadActivePreset();
       this.savePresetsToStorage();
     }
   }
 
-  private handlePromptChanged(e: CustomEvent<Prompt>) {
-    const { promptId, text, weight, cc } = e.detail;
+  private handlePromptChanged(e: CustomEvent<PromptChange>) {
+    const { promptId, source, ...change } = e.detail;
     const prompt = this.prompts.get(promptId);
 
     if (!prompt) {
@@ -277,24 +959,218 @@ export class PromptDjMidi extends LitElement {
       return;
     }
 
-    prompt.text = text;
-    prompt.weight = weight;
-    prompt.cc = cc;
+    // A copy, since loaded presets share their prompt objects with the grid.
+    const newPrompts = new Map(this.prompts);
+    newPrompts.set(promptId, { ...prompt, ...change });
 
+    this.prompts = newPrompts;
+    this.requestUpdate();
+
+    this.dispatchPromptsChanged();
+    this.automation.capture(this.prompts, source);
+  }
+
+  private setGridPrompts(prompts: Map<string, Prompt>) {
+    this.prompts = prompts;
+    this.requestUpdate();
+    this.dispatchPromptsChanged();
+  }
+
+  private toggleEditGrid() {
+    this.editGrid = !this.editGrid;
+  }
+
+  /** The lowest CC number not yet assigned to a prompt. */
+  private nextFreeCc() {
+    const used = new Set([...this.prompts.values()].map((p) => p.cc));
+    for (let cc = 0; cc < 128; cc++) {
+      if (!used.has(cc)) return cc;
+    }
+    return 0;
+  }
+
+  private addPrompt() {
+    if (this.prompts.size >= MAX_PROMPTS) return;
+    let index = this.prompts.size;
+    while (this.prompts.has(`prompt-${index}`)) index++;
+    const promptId = `prompt-${index}`;
+    const newPrompts = new Map(this.prompts);
+    newPrompts.set(promptId, {
+      promptId,
+      text: 'New Prompt',
+      weight: 0,
+      cc: this.nextFreeCc(),
+      color: PROMPT_COLORS[this.prompts.size % PROMPT_COLORS.length],
+    });
+    this.setGridPrompts(newPrompts);
+  }
+
+  private handlePromptRemoved(e: CustomEvent<string>) {
+    if (this.prompts.size <= 1) return;
     const newPrompts = new Map(this.prompts);
-    newPrompts.set(promptId, prompt);
+    newPrompts.delete(e.detail);
+    this.setGridPrompts(newPrompts);
+  }
+
+  /** Moves a prompt to the position of another, shifting the rest along. */
+  private movePrompt(promptId: string, targetId: string) {
+    if (promptId === targetId) return;
+    const ids = [...this.prompts.keys()].filter((id) => id !== promptId);
+    ids.splice(ids.indexOf(targetId) + (this.isAfter(promptId, targetId) ? 1 : 0), 0, promptId);
+    this.setGridPrompts(new Map(ids.map((id) => [id, this.prompts.get(id)!])));
+  }
+
+  private isAfter(promptId: string, targetId: string) {
+    const ids = [...this.prompts.keys()];
+    return ids.indexOf(promptId) < ids.indexOf(targetId);
+  }
+
+  private handlePromptDragStart(e: DragEvent, promptId: string) {
+    this.dragPromptId = promptId;
+    e.dataTransfer?.setData('text/plain', promptId);
+    e.dataTransfer?.setDragImage(e.currentTarget as Element, 0, 0);
+  }
+
+  private handlePromptDragOver(e: DragEvent, promptId: string) {
+    if (!this.dragPromptId) return;
+    e.preventDefault();
+    this.dropTargetId = promptId;
+  }
 
+  private handlePromptDrop(e: DragEvent, promptId: string) {
+    if (!this.dragPromptId) return;
+    e.preventDefault();
+    this.movePrompt(this.dragPromptId, promptId);
+    this.handlePromptDragEnd();
+  }
+
+  private handlePromptDragEnd() {
+    this.dragPromptId = null;
+    this.dropTargetId = null;
+  }
+
+  /** Columns and rows for a square-ish grid holding `count` cells. */
+  private gridSize(count: number) {
+    const cols = Math.max(1, Math.ceil(Math.sqrt(count)));
+    return { cols, rows: Math.max(1, Math.ceil(count / cols)) };
+  }
+
+  /**
+   * Applies the weights and texts of prompts replayed from an automation
+   * lane, leaving locked prompts and everything else about a prompt alone.
+   */
+  private applyAutomation(prompts: Prompt[]) {
+    const newPrompts = new Map(this.prompts);
+    for (const { promptId, weight, text } of prompts) {
+      const current = newPrompts.get(promptId);
+      if (!current || current.locked) continue;
+      newPrompts.set(promptId, { ...current, weight, text });
+    }
     this.prompts = newPrompts;
     this.requestUpdate();
+    this.dispatchPromptsChanged();
+  }
+
+  private toggleShowScenes() {
+    this.showScenes = !this.showScenes;
+    if (this.showScenes) {
+      this.scenes = { a: this.activePresetName, b: this.getNextPresetName() };
+      this.crossfadePosition = 0;
+    }
+  }
+
+  private handleScenesChanged(e: CustomEvent<SceneSlots>) {
+    this.scenes = e.detail;
+    this.applyCrossfade();
+  }
 
-    // FIX: Cast `this` to `any` to call dispatchEvent due to missing DOM types.
-    (this as any).dispatchEvent(
-      new CustomEvent('prompts-changed', { detail: this.prompts }),
+  private handleCrossfade(e: CustomEvent<number>) {
+    this.setCrossfade(e.detail);
+  }
+
+  private setCrossfade(position: number) {
+    if (!this.scenes.a || !this.scenes.b) {
+      this.scenes = { a: this.activePresetName, b: this.activePresetName };
+    }
+    this.crossfadePosition = position;
+    this.applyCrossfade();
+  }
+
+  /** Blends the A and B scenes at the fader position into the grid. */
+  private applyCrossfade() {
+    const a = this.presets.get(this.scenes.a);
+    const b = this.presets.get(this.scenes.b);
+    if (!a || !b) return;
+    this.prompts = crossfadePrompts(
+      this.withLockedPrompts(a.prompts),
+      this.withLockedPrompts(b.prompts),
+      this.crossfadePosition,
     );
+    this.requestUpdate();
+    this.dispatchPromptsChanged();
+    this.automation.capture(this.prompts, 'crossfader');
+  }
+
+  private getNextPresetName() {
+    const names = [...this.presets.keys()];
+    return names[(names.indexOf(this.activePresetName) + 1) % names.length];
+  }
+
+  private toggleShowMorph() {
+    this.showMorph = !this.showMorph;
+    if (this.showMorph && !this.presets.has(this.morphSettings.target)) {
+      this.morphSettings = { ...this.morphSettings, target: this.getNextPresetName() };
+    }
+  }
+
+  private handleMorphSettingsChanged(e: CustomEvent<MorphSettings>) {
+    this.morphSettings = e.detail;
+  }
+
+  /** Ramps the current prompts to the target preset. */
+  private startMorph() {
+    const { length, unit, easing } = this.morphSettings;
+    const target = this.presets.has(this.morphSettings.target)
+      ? this.morphSettings.target
+      : this.getNextPresetName();
+    const preset = this.presets.get(target)!;
+    const secondsPerBar = (4 * 60) / (this.config.bpm ?? DEFAULT_BPM);
+    const durationMs = (unit === 'bars' ? length * secondsPerBar : length) * 1000;
+
+    this.morph?.cancel();
+    const morph = new PresetMorph(this.prompts, this.withLockedPrompts(preset.prompts), durationMs, easing);
+    morph.addEventListener('morph-step', (e) => {
+      const { prompts, progress } = e.detail;
+      this.morphProgress = progress;
+      this.prompts = prompts;
+      this.requestUpdate();
+      this.dispatchPromptsChanged();
+      this.automation.capture(this.prompts, 'morph');
+    });
+    morph.addEventListener('morph-complete', () => {
+      this.morph = null;
+      this.morphProgress = null;
+      this.activePresetName = target;
+      this.loadActivePreset();
+    });
+    morph.addEventListener('morph-cancelled', () => {
+      this.morph = null;
+      this.morphProgress = null;
+    });
+    this.morph = morph;
+    morph.start();
+  }
+
+  private toggleShowAutomation() {
+    this.showAutomation = !this.showAutomation;
+  }
+
+  private recordAutomation() {
+    this.automation.record(this.prompts);
   }
 
   /** Generates radial gradients for each prompt based on weight and color. */
-  private readonly makeBackground = throttle(
+  private readonly updateBackground = throttle(
     () => {
       const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
 
@@ -302,6 +1178,7 @@ export class PromptDjMidi extends LitElement {
       const MAX_ALPHA = 0.6;
 
       const bg: string[] = [];
+      const { cols, rows } = this.gridSize(this.prompts.size);
 
       [...this.prompts.values()].forEach((p, i) => {
         const alphaPct = clamp01(p.weight / MAX_WEIGHT) * MAX_ALPHA;
@@ -310,14 +1187,14 @@ export class PromptDjMidi extends LitElement {
           .padStart(2, '0');
 
         const stop = p.weight / 2;
-        const x = (i % 4) / 3;
-        const y = Math.floor(i / 4) / 3;
+        const x = cols > 1 ? (i % cols) / (cols - 1) : 0.5;
+        const y = rows > 1 ? Math.floor(i / cols) / (rows - 1) : 0.5;
         const s = `radial-gradient(circle at ${x * 100}% ${y * 100}%, ${p.color}${alpha} 0px, ${p.color}00 ${stop * 100}%)`;
 
         bg.push(s);
       });
 
-      return bg.join(', ');
+      this.background = bg.join(', ');
     },
     30, // don't re-render more than once every XXms
   );
@@ -330,95 +1207,350 @@ export class PromptDjMidi extends LitElement {
     this.showMidi = show;
     if (!this.showMidi) return;
     try {
-      const inputIds = await this.midiDispatcher.getMidiAccess();
-      this.midiInputIds = inputIds;
-      this.activeMidiInputId = this.midiDispatcher.activeMidiInputId;
+      await this.midiDispatcher.getMidiAccess();
+      this.refreshMidiInputs();
     } catch (e) {
       this.showMidi = false;
-      // FIX: Cast `this` to `any` to call dispatchEvent due to missing DOM types.
-      (this as any).dispatchEvent(new CustomEvent('error', {detail: (e as any).message}));
+      this.dispatchEvent(new CustomEvent('error', { detail: (e as Error).message }));
     }
   }
 
-  private handleMidiInputChange(event: Event) {
-    // FIX: Cast `event.target` to `any` to handle missing DOM types.
-    const selectElement = event.target as any;
-    const newMidiId = selectElement.value;
-    this.activeMidiInputId = newMidiId;
-    this.midiDispatcher.activeMidiInputId = newMidiId;
+  /** Syncs the header with the connected and enabled MIDI inputs. */
+  private refreshMidiInputs() {
+    this.midiInputIds = this.midiDispatcher.getInputIds();
+    this.enabledMidiInputIds = this.midiInputIds.filter(
+      (id) => this.midiDispatcher.isInputEnabled(id),
+    );
+    this.midiFeedback.resync();
+  }
+
+  private toggleMidiInput(id: string) {
+    this.midiDispatcher.setInputEnabled(id, !this.midiDispatcher.isInputEnabled(id));
+    this.refreshMidiInputs();
+  }
+
+  private toggleShowMidiMappings() {
+    this.showMidiMappings = !this.showMidiMappings;
+  }
+
+  private toggleRecording() {
+    this.dispatchEvent(new CustomEvent('record-toggle'));
+  }
+
+  private toggleShowTakes() {
+    this.showTakes = !this.showTakes;
   }
 
   private playPause() {
-    // FIX: Cast `this` to `any` to call dispatchEvent due to missing DOM types.
-    (this as any).dispatchEvent(new CustomEvent('play-pause'));
+    this.dispatchEvent(new CustomEvent('play-pause'));
   }
 
   public addFilteredPrompt(prompt: string) {
     this.filteredPrompts = new Set([...this.filteredPrompts, prompt]);
+    for (const { promptId, text } of this.prompts.values()) {
+      if (text === prompt) this.midiFeedback.flash(promptId);
+    }
   }
 
   override render() {
     const bg = styleMap({
-      backgroundImage: this.makeBackground(),
+      backgroundImage: this.background,
     });
 
     const saveIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><path d="M2 1a1 1 0 0 0-1 1v12a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1V2a1 1 0 0 0-1-1H9.5a1 1 0 0 0-1 1v4.5h2a.5.5 0 0 1 .354.854l-2.5 2.5a.5.5 0 0 1-.708 0l-2.5-2.5A.5.5 0 0 1 5.5 6.5h2V2a2 2 0 0 1 2-2H14a2 2 0 0 1 2 2v12a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2V2a2 2 0 0 1 2-2h2.5a.5.5 0 0 1 0 1z"/></svg>`;
+    const exportIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><path d="M.5 9.9a.5.5 0 0 1 .5.5v2.5a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1v-2.5a.5.5 0 0 1 1 0v2.5a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2v-2.5a.5.5 0 0 1 .5-.5"/><path d="M7.646 11.854a.5.5 0 0 0 .708 0l3-3a.5.5 0 0 0-.708-.708L8.5 10.293V1.5a.5.5 0 0 0-1 0v8.793L5.354 8.146a.5.5 0 1 0-.708.708z"/></svg>`;
+    const exportAllIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><path d="M2.5 3.5a.5.5 0 0 1 0-1h11a.5.5 0 0 1 0 1zm2-2a.5.5 0 0 1 0-1h7a.5.5 0 0 1 0 1zM0 13a1.5 1.5 0 0 0 1.5 1.5h13A1.5 1.5 0 0 0 16 13V6a1.5 1.5 0 0 0-1.5-1.5h-13A1.5 1.5 0 0 0 0 6zm1.5.5A.5.5 0 0 1 1 13V6a.5.5 0 0 1 .5-.5h13a.5.5 0 0 1 .5.5v7a.5.5 0 0 1-.5.5z"/></svg>`;
+    const importIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><path d="M.5 9.9a.5.5 0 0 1 .5.5v2.5a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1v-2.5a.5.5 0 0 1 1 0v2.5a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2v-2.5a.5.5 0 0 1 .5-.5"/><path d="M7.646 1.146a.5.5 0 0 1 .708 0l3 3a.5.5 0 0 1-.708.708L8.5 2.707V11.5a.5.5 0 0 1-1 0V2.707L5.354 4.854a.5.5 0 1 1-.708-.708z"/></svg>`;
+    const shareIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><path d="M4.715 6.542 3.343 7.914a3 3 0 1 0 4.243 4.243l1.828-1.829A3 3 0 0 0 8.586 5.5L8 6.086a1 1 0 0 0-.154.199 2 2 0 0 1 .861 3.337L6.88 11.45a2 2 0 1 1-2.83-2.83l.793-.792a4 4 0 0 1-.128-1.287z"/><path d="M6.586 4.672A3 3 0 0 0 7.414 9.5l.775-.776a2 2 0 0 1-.896-3.346L9.12 3.55a2 2 0 1 1 2.83 2.83l-.793.792c.112.42.155.855.128 1.287l1.372-1.372a3 3 0 1 0-4.243-4.243z"/></svg>`;
     const deleteIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><path d="M5.5 5.5A.5.5 0 0 1 6 6v6a.5.5 0 0 1-1 0V6a.5.5 0 0 1 .5-.5m2.5 0a.5.5 0 0 1 .5.5v6a.5.5 0 0 1-1 0V6a.5.5 0 0 1 .5-.5m3 .5a.5.5 0 0 0-1 0v6a.5.5 0 0 0 1 0z"/><path d="M14.5 3a1 1 0 0 1-1 1H13v9a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V4h-.5a1 1 0 0 1-1-1V2a1 1 0 0 1 1-1H6a1 1 0 0 1 1-1h2a1 1 0 0 1 1 1h3.5a1 1 0 0 1 1 1zM4.118 4 4 4.059V13a1 1 0 0 0 1 1h6a1 1 0 0 0 1-1V4.059L11.882 4zM2.5 3h11V2h-11z"/></svg>`;
 
     return html`
       <div id="background" style=${bg}></div>
+      ${this.dropActive ? html`<div id="drop-overlay">Drop preset files to import</div>` : ''}
       <header id="header">
         <div id="preset-controls">
-          <select @change=${this.handlePresetChange} .value=${this.activePresetName}>
+          <select @change=${this.handlePresetChange}>
             ${[...this.presets.keys()].map(
               (name) => html`<option .value=${name}>${name}</option>`
             )}
           </select>
           <button class="icon-button" @click=${this.saveCurrentPreset} title="Save As...">${saveIcon}</button>
           <button class="icon-button" @click=${this.deleteCurrentPreset} ?disabled=${this.defaultPresets.has(this.activePresetName)} title="Delete Preset">${deleteIcon}</button>
+          <button class="icon-button" @click=${this.exportCurrentPreset} title="Export Preset">${exportIcon}</button>
+          <button class="icon-button" @click=${this.exportAllPresets} title="Export All Presets">${exportAllIcon}</button>
+          <label class="icon-button" title="Import Presets">
+            ${importIcon}
+            <input id="import-input" type="file" accept=".json,application/json" multiple @change=${this.handleImportInput} />
+          </label>
+          <button class="icon-button" @click=${this.sharePreset} title="Copy Share Link">${shareIcon}</button>
+          <button
+            @click=${this.toggleEditGrid}
+            class=${this.editGrid ? 'active' : ''}
+            title="Add, remove, reorder and recolor prompts"
+            >Edit</button
+          >
+          <button
+            @click=${this.toggleShowScenes}
+            class=${this.showScenes ? 'active' : ''}
+            >Scenes</button
+          >
+          <button
+            @click=${this.toggleShowMorph}
+            class=${this.showMorph ? 'active' : ''}
+            >Morph</button
+          >
+          <button
+            @click=${this.toggleShowAutomation}
+            class=${this.showAutomation ? 'active' : ''}
+            >Automation</button
+          >
+        </div>
+        ${this.showAutomation ? html`<automation-panel
+          .recorder=${this.automation}
+          @automation-record=${this.recordAutomation}></automation-panel>` : ''}
+        <div id="record-controls">
+          <button
+            id="record-button"
+            class=${this.recordingState}
+            @click=${this.toggleRecording}
+            title=${this.recordingState === 'idle' ? 'Arm recording' : 'Stop recording'}
+            >REC</button
+          >
+          <button
+            @click=${this.toggleShowTakes}
+            class=${this.showTakes ? 'active' : ''}
+            ?disabled=${!this.takeStore}
+            >Takes</button
+          >
         </div>
+        ${this.showTakes && this.takeStore ? html`<take-browser
+          .store=${this.takeStore}
+          .cue=${this.cueOutput}></take-browser>` : ''}
         <div id="midi-controls">
+          <button
+            @click=${this.toggleShowConfig}
+            class=${this.showConfig ? 'active' : ''}
+            >Config</button
+          >
+          <button
+            @click=${this.toggleShowFx}
+            class=${this.showFx ? 'active' : ''}
+            title="Master effects"
+            >FX</button
+          >
+          <button
+            @click=${this.toggleShowOutputs}
+            class=${this.showOutputs ? 'active' : ''}
+            title="Master volume, output devices and cue"
+            >Out</button
+          >
+          <button
+            @click=${this.toggleShowVisualizer}
+            class=${this.showVisualizer ? 'active' : ''}
+            ?disabled=${!this.audioAnalyser}
+            title="Spectrum, waveform and loudness"
+            >Meters</button
+          >
+          <button
+            @click=${this.toggleBandMode}
+            class=${this.bandMode ? 'active' : ''}
+            ?disabled=${!this.audioAnalyser}
+            title="Halos follow each prompt's spectral band"
+            >Bands</button
+          >
+          <button
+            @click=${this.toggleShowPerformance}
+            title="Full-screen performance view"
+            >Perform</button
+          >
+          <select
+            id="quantize-select"
+            .value=${this.quantize}
+            ?disabled=${!this.beatDetector}
+            title="Quantize preset switches, morphs and pad toggles"
+            @change=${this.handleQuantizeChange}>
+            <option value="off">Free</option>
+            <option value="beat">Beat</option>
+            <option value="bar">Bar</option>
+          </select>
+          <button
+            @click=${this.toggleSyncToBpm}
+            class=${this.syncToBpm ? 'active' : ''}
+            ?disabled=${!this.beatDetector}
+            title="Align the beat grid to the configured BPM"
+            >Sync</button
+          >
+          <span id="tempo" title="Detected tempo">${this.tempo === null ? '--' : this.tempo.toFixed(1)} BPM</span>
           <button
             @click=${this.toggleShowMidi}
             class=${this.showMidi ? 'active' : ''}
             >MIDI</button
           >
-          <select
-            @change=${this.handleMidiInputChange}
-            .value=${this.activeMidiInputId || ''}
-            style=${this.showMidi ? '' : 'visibility: hidden'}>
+          <div id="midi-inputs" style=${this.showMidi ? '' : 'visibility: hidden'}>
             ${this.midiInputIds.length > 0
               ? this.midiInputIds.map(
                   (id) =>
-                    html`<option value=${id}>
-                      ${this.midiDispatcher.getDeviceName(id)}
-                    </option>`,
+                    html`<button
+                      class=${this.enabledMidiInputIds.includes(id) ? 'active' : ''}
+                      title="Listen to this input"
+                      @click=${() => this.toggleMidiInput(id)}
+                      >${this.midiDispatcher.getDeviceName(id)}</button
+                    >`,
                 )
-              : html`<option value="">No devices found</option>`}
-          </select>
+              : html`<span>No devices found</span>`}
+          </div>
+          <button
+            @click=${this.toggleShowMidiMappings}
+            class=${this.showMidiMappings ? 'active' : ''}
+            style=${this.showMidi ? '' : 'visibility: hidden'}
+            >Mappings</button
+          >
         </div>
+        ${this.showMidi && this.showMidiMappings ? html`<midi-mapping-panel
+          .controls=${[...GLOBAL_MIDI_CONTROLS, ...this.getPadControls()]}
+          .registry=${this.midiMappings}
+          .feedback=${this.midiFeedback}
+          .devices=${this.enabledMidiInputIds.map((id) => this.midiDispatcher.getDeviceName(id) ?? id)}></midi-mapping-panel>` : ''}
       </header>
       <main id="main-panel">
-        <div id="grid">${this.renderPrompts()}</div>
+        ${this.showConfig ? html`<music-config-panel
+          .config=${this.config}
+          @config-changed=${this.handleConfigChanged}></music-config-panel>` : ''}
+        ${this.showFx ? html`<fx-panel
+          .fx=${this.fx}
+          @fx-changed=${this.handleFxChanged}></fx-panel>` : ''}
+        ${this.showOutputs ? html`<output-panel
+          .volume=${this.volume}
+          .cueVolume=${this.cueVolume}
+          .settings=${this.outputs}
+          @volume-changed=${this.handleVolumeChanged}
+          @cue-volume-changed=${this.handleCueVolumeChanged}
+          @output-changed=${this.handleOutputChanged}></output-panel>` : ''}
+        ${this.showVisualizer && this.audioAnalyser ? html`<audio-visualizer
+          .analyser=${this.audioAnalyser}></audio-visualizer>` : ''}
+        ${this.renderGrid()}
+        ${this.showScenes ? html`<scene-crossfader
+          .presetNames=${[...this.presets.keys()]}
+          .scenes=${this.scenes}
+          .position=${this.crossfadePosition}
+          @scenes-changed=${this.handleScenesChanged}
+          @crossfade=${this.handleCrossfade}></scene-crossfader>` : ''}
+        ${this.showMorph ? html`<morph-controls
+          .presetNames=${[...this.presets.keys()]}
+          .settings=${this.morphSettings}
+          .progress=${this.morphProgress}
+          @morph-settings-changed=${this.handleMorphSettingsChanged}
+          @morph-start=${() => this.quantized(() => this.startMorph())}
+          @morph-cancel=${() => this.morph?.cancel()}></morph-controls>` : ''}
         <play-pause-button .playbackState=${this.playbackState} @click=${this.playPause}></play-pause-button>
       </main>
+      ${this.showPerformance ? this.renderPerformanceView() : ''}
       `;
   }
 
+  private renderPerformanceView() {
+    const soloing = [...this.prompts.values()].some((p) => p.soloed);
+    const voices = [...this.prompts.values()]
+      .filter((p) => p.weight > 0 && !p.muted && !(soloing && !p.soloed) && !this.filteredPrompts.has(p.text))
+      .map((p): PerformanceVoice => ({
+        text: p.text,
+        color: p.color,
+        weight: p.weight,
+        level: this.promptAudioLevel(p),
+      }));
+    return html`<performance-view
+      .voices=${voices}
+      .beatDetector=${this.beatDetector}
+      @close=${this.toggleShowPerformance}></performance-view>`;
+  }
+
+  private renderGrid() {
+    const canAdd = this.editGrid && this.prompts.size < MAX_PROMPTS;
+    const { cols, rows } = this.gridSize(this.prompts.size + (canAdd ? 1 : 0));
+    const gridStyle = styleMap({
+      gridTemplateColumns: `repeat(${cols}, 1fr)`,
+      height: `calc(80vmin * ${rows} / ${cols})`,
+    });
+    return html`<div id="grid" style=${gridStyle}>
+      ${this.renderPrompts()}
+      ${canAdd ? html`<button id="add-prompt" @click=${this.addPrompt} title="Add prompt">+</button>` : ''}
+    </div>`;
+  }
+
   private renderPrompts() {
-    return [...this.prompts.values()].map((prompt) => {
+    const soloing = [...this.prompts.values()].some((p) => p.soloed);
+    return repeat(this.prompts.values(), (prompt) => prompt.promptId, (prompt) => {
       return html`<prompt-controller
+        class=${this.dropTargetId === prompt.promptId && this.dragPromptId !== prompt.promptId ? 'drop-target' : ''}
         promptId=${prompt.promptId}
         ?filtered=${this.filteredPrompts.has(prompt.text)}
         cc=${prompt.cc}
+        .channel=${prompt.channel}
+        .device=${prompt.device}
+        .ccMode=${prompt.ccMode ?? 'absolute'}
+        .pickup=${prompt.pickup ?? false}
+        .minWeight=${prompt.minWeight ?? DEFAULT_MIN_WEIGHT}
+        .maxWeight=${prompt.maxWeight ?? DEFAULT_MAX_WEIGHT}
+        .curve=${prompt.curve ?? 'linear'}
+        .breakpoints=${prompt.breakpoints ?? [[0, 0], [1, 1]]}
+        .muted=${prompt.muted ?? false}
+        .soloed=${prompt.soloed ?? false}
+        .locked=${prompt.locked ?? false}
+        ?silenced=${prompt.muted || (soloing && !prompt.soloed)}
         text=${prompt.text}
         weight=${prompt.weight}
         color=${prompt.color}
         .midiDispatcher=${this.midiDispatcher}
         .showCC=${this.showMidi}
-        audioLevel=${this.audioLevel}
-        @prompt-changed=${this.handlePromptChanged}>
+        audioLevel=${this.promptAudioLevel(prompt)}
+        .band=${prompt.band}
+        .editMode=${this.editGrid}
+        @prompt-changed=${this.handlePromptChanged}
+        @prompt-removed=${this.handlePromptRemoved}
+        @dragstart=${(e: DragEvent) => this.handlePromptDragStart(e, prompt.promptId)}
+        @dragover=${(e: DragEvent) => this.handlePromptDragOver(e, prompt.promptId)}
+        @drop=${(e: DragEvent) => this.handlePromptDrop(e, prompt.promptId)}
+        @dragend=${this.handlePromptDragEnd}>
       </prompt-controller>`;
     });
   }
-}
\ No newline at end of file
+}
+
+export interface PromptDjMidi {
+  addEventListener<K extends keyof PromptDjMidiEventMap>(
+    type: K,
+    listener: TypedListener<PromptDjMidiEventMap, K>,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => void,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  removeEventListener<K extends keyof PromptDjMidiEventMap>(
+    type: K,
+    listener: TypedListener<PromptDjMidiEventMap, K>,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  removeEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => void,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions,
+  ): void;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'prompt-dj-midi': PromptDjMidi;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+/** The A and B scenes picked in the crossfader. */
+export interface SceneSlots {
+  a: string;
+  b: string;
+}
+
+/** Two preset slots with a fader blending between them. */
+@customElement('scene-crossfader')
+export class SceneCrossfader extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 1.5vmin;
+      width: 100%;
+      color: #fff;
+    }
+    select {
+      font-family: 'Poppins', sans-serif;
+      font-size: 1.4vmin;
+      color: #fff;
+      background: #ffffff26;
+      border: 1px solid #ffffff73;
+      border-radius: 8px;
+      padding: 4px 8px;
+      outline: none;
+      max-width: 18vmin;
+    }
+    select option {
+      color: #000;
+    }
+    .slot {
+      font-weight: 600;
+    }
+    input[type='range'] {
+      flex: 1;
+      accent-color: #fff;
+    }
+  `;
+
+  @property({ type: Array }) presetNames: string[] = [];
+  @property({ type: Object }) scenes: SceneSlots = { a: '', b: '' };
+  @property({ type: Number }) position = 0;
+
+  private handleSceneChange(slot: keyof SceneSlots, e: Event) {
+    const name = (e.target as HTMLSelectElement).value;
+    this.dispatchEvent(new CustomEvent<SceneSlots>('scenes-changed', {
+      detail: { ...this.scenes, [slot]: name },
+    }));
+  }
+
+  private handleInput(e: Event) {
+    const position = Number((e.target as HTMLInputElement).value);
+    this.dispatchEvent(new CustomEvent<number>('crossfade', { detail: position }));
+  }
+
+  private renderSlot(slot: keyof SceneSlots) {
+    return html`<select
+      @change=${(e: Event) => this.handleSceneChange(slot, e)}
+      .value=${this.scenes[slot]}>
+      ${this.presetNames.map(
+        (name) => html`<option .value=${name} ?selected=${name === this.scenes[slot]}>${name}</option>`,
+      )}
+    </select>`;
+  }
+
+  override render() {
+    return html`
+      <span class="slot">A</span>
+      ${this.renderSlot('a')}
+      <input
+        type="range"
+        min="0"
+        max="1"
+        step="0.001"
+        .value=${this.position.toString()}
+        @input=${this.handleInput} />
+      ${this.renderSlot('b')}
+      <span class="slot">B</span>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'scene-crossfader': SceneCrossfader;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { CueOutput } from '../utils/CueOutput';
+import { downloadBlob } from '../utils/download';
+import { encodeFlac } from '../utils/flac';
+import { encodeWav } from '../utils/wav';
+import type { TakeInfo, TakeStore } from '../utils/TakeStore';
+
+function formatDuration(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return `${m}:${s}`;
+}
+
+/** Lists recorded takes with rename, cue, export and delete actions. */
+@customElement('take-browser')
+export class TakeBrowser extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      padding: 12px;
+      border-radius: 15px;
+      background: #000000b3;
+      border: 1px solid #ffffff4d;
+      color: #fff;
+      font-size: 13px;
+      max-height: 60vh;
+      overflow-y: auto;
+    }
+    .take {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .name {
+      flex: 1;
+      cursor: text;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .duration {
+      font-family: monospace;
+      opacity: 0.7;
+    }
+    .empty {
+      opacity: 0.6;
+      text-align: center;
+    }
+    button {
+      font-family: 'Poppins', sans-serif;
+      font-size: 11px;
+      color: #fff;
+      background: #ffffff26;
+      border: 1px solid #ffffff73;
+      border-radius: 6px;
+      padding: 2px 6px;
+      cursor: pointer;
+      &:hover {
+        background: #ffffff4d;
+      }
+      &.active {
+        background: #ffb84d;
+        border-color: #ffb84d;
+        color: #000;
+      }
+    }
+  `;
+
+  @property({ type: Object }) store: TakeStore | null = null;
+  /** Pre-listens to takes, on headphones say, when set. */
+  @property({ type: Object }) cue: CueOutput | null = null;
+  @state() private takes: TakeInfo[] = [];
+  @state() private cuedId: string | null = null;
+
+  private readonly refresh = async () => {
+    if (!this.store) return;
+    try {
+      this.takes = await this.store.list();
+    } catch (e) {
+      this.dispatchError(`Unable to load takes: ${(e as Error).message}`);
+    }
+  };
+
+  private readonly onCueChanged = (e: CustomEvent<string | null>) => {
+    this.cuedId = e.detail;
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.store?.addEventListener('takes-changed', this.refresh);
+    this.cue?.addEventListener('cue-changed', this.onCueChanged);
+    this.cuedId = this.cue?.cued ?? null;
+    this.refresh();
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.store?.removeEventListener('takes-changed', this.refresh);
+    this.cue?.removeEventListener('cue-changed', this.onCueChanged);
+  }
+
+  private dispatchError(message: string) {
+    this.dispatchEvent(new CustomEvent('error', { detail: message, bubbles: true, composed: true }));
+  }
+
+  /** Loads a take's audio, reporting a failure or a take without any. */
+  private async getAudio(take: TakeInfo) {
+    try {
+      const full = await this.store?.get(take.id);
+      if (full) return full;
+      this.dispatchError(`Take "${take.name}" has no audio.`);
+    } catch (e) {
+      this.dispatchError(`Unable to load take "${take.name}": ${(e as Error).message}`);
+    }
+    return null;
+  }
+
+  private async rename(take: TakeInfo) {
+    const name = window.prompt('Rename take:', take.name)?.trim();
+    if (!name) return;
+    try {
+      await this.store?.rename(take.id, name);
+    } catch (e) {
+      this.dispatchError(`Unable to rename take "${take.name}": ${(e as Error).message}`);
+    }
+  }
+
+  private async delete(take: TakeInfo) {
+    if (!window.confirm(`Delete "${take.name}"?`)) return;
+    try {
+      await this.store?.delete(take.id);
+    } catch (e) {
+      this.dispatchError(`Unable to delete take "${take.name}": ${(e as Error).message}`);
+    }
+  }
+
+  private async toggleCue(take: TakeInfo) {
+    if (!this.cue) return;
+    if (this.cuedId === take.id) {
+      this.cue.stop();
+      return;
+    }
+    const full = await this.getAudio(take);
+    if (!full) return;
+    this.cue.play(take.id, full.channels, full.sampleRate);
+  }
+
+  private async export(take: TakeInfo, format: 'wav' | 'flac') {
+    const full = await this.getAudio(take);
+    if (!full) return;
+    const blob = format === 'wav'
+      ? encodeWav(full.channels, full.sampleRate)
+      : encodeFlac(full.channels, full.sampleRate);
+    downloadBlob(blob, `${take.name}.${format}`);
+  }
+
+  private exportTimeline(take: TakeInfo) {
+    const json = JSON.stringify({ name: take.name, timeline: take.timeline }, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${take.name}.timeline.json`);
+  }
+
+  private renderTake(take: TakeInfo) {
+    return html`<div class="take">
+      <span class="name" title="Rename" @click=${() => this.rename(take)}>${take.name}</span>
+      <span class="duration">${formatDuration(take.duration)}</span>
+      ${this.cue ? html`<button
+        class=${this.cuedId === take.id ? 'active' : ''}
+        title="Pre-listen on the cue output"
+        @click=${() => this.toggleCue(take)}>${this.cuedId === take.id ? 'Stop' : 'Cue'}</button>` : ''}
+      <button @click=${() => this.export(take, 'wav')}>WAV</button>
+      <button @click=${() => this.export(take, 'flac')}>FLAC</button>
+      <button title="Prompt timeline" @click=${() => this.exportTimeline(take)}>JSON</button>
+      <button title="Delete take" @click=${() => this.delete(take)}>✕</button>
+    </div>`;
+  }
+
+  override render() {
+    if (this.takes.length === 0) {
+      return html`<div class="empty">No takes yet. Arm REC and press play.</div>`;
+    }
+    return this.takes.map((take) => this.renderTake(take));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'take-browser': TakeBrowser;
+  }
+}
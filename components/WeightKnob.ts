@@ -66,44 +66,31 @@ export class WeightKnob extends LitElement {
 
   private handlePointerDown(e: PointerEvent) {
     e.preventDefault();
-    // FIX: Cast event to `any` to access `clientY` due to missing DOM types.
-    this.dragStartPos = (e as any).clientY;
+    this.dragStartPos = e.clientY;
     this.dragStartValue = this.value;
-    // FIX: Cast document to `any` to access body due to missing DOM types.
-    // FIX: Use globalThis to access document as it is not defined in the current scope.
-    (globalThis as any).document.body.classList.add('dragging');
-    // FIX: Cast window to `any` to access addEventListener due to missing DOM types.
-    (window as any).addEventListener('pointermove', this.handlePointerMove);
-    // FIX: Cast window to `any` to access addEventListener due to missing DOM types.
-    (window as any).addEventListener('pointerup', this.handlePointerUp);
+    document.body.classList.add('dragging');
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp);
   }
 
   private handlePointerMove(e: PointerEvent) {
-    // FIX: Cast event to `any` to access `clientY` due to missing DOM types.
-    const delta = this.dragStartPos - (e as any).clientY;
+    const delta = this.dragStartPos - e.clientY;
     this.value = this.dragStartValue + delta * 0.01;
     this.value = Math.max(0, Math.min(2, this.value));
-    // FIX: Cast `this` to `any` to call dispatchEvent due to missing DOM types.
-    (this as any).dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
+    this.dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
   }
 
   private handlePointerUp() {
-    // FIX: Cast window to `any` to access removeEventListener due to missing DOM types.
-    (window as any).removeEventListener('pointermove', this.handlePointerMove);
-    // FIX: Cast window to `any` to access removeEventListener due to missing DOM types.
-    (window as any).removeEventListener('pointerup', this.handlePointerUp);
-    // FIX: Cast document to `any` to access body due to missing DOM types.
-    // FIX: Use globalThis to access document as it is not defined in the current scope.
-    (globalThis as any).document.body.classList.remove('dragging');
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+    document.body.classList.remove('dragging');
   }
 
   private handleWheel(e: WheelEvent) {
-    // FIX: Cast event to `any` to access `deltaY` due to missing DOM types.
-    const delta = (e as any).deltaY;
+    const delta = e.deltaY;
     this.value = this.value + delta * -0.0025;
     this.value = Math.max(0, Math.min(2, this.value));
-    // FIX: Cast `this` to `any` to call dispatchEvent due to missing DOM types.
-    (this as any).dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
+    this.dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
   }
 
   private describeArc(
@@ -4,82 +4,155 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { PlaybackState, Prompt } from './types';
-import { GoogleGenAI } from '@google/genai';
+import type { MusicConfig, Preset, Prompt } from './types';
+import { GoogleGenAI, Scale } from '@google/genai';
 import { PromptDjMidi } from './components/PromptDjMidi';
 import { ToastMessage } from './components/ToastMessage';
 import { LiveMusicHelper } from './utils/LiveMusicHelper';
+import { LyriaBackend } from './utils/LyriaBackend';
+import { MockMusicBackend } from './utils/MockMusicBackend';
+import type { MusicBackend } from './utils/MusicBackend';
 import { AudioAnalyser } from './utils/AudioAnalyser';
+import { BeatDetector } from './utils/BeatDetector';
+import { CueOutput } from './utils/CueOutput';
+import { supportsSinkSelection } from './utils/audioOutputs';
+import { SessionRecorder } from './utils/SessionRecorder';
+import { TakeStore } from './utils/TakeStore';
 
-// FIX: Initialize with `process.env.API_KEY` and remove `apiVersion` as per Gemini API guidelines.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 const model = 'lyria-realtime-exp';
 
+/**
+ * Picks the music backend from the `backend` URL parameter or the
+ * `MUSIC_BACKEND` env variable: `mock` plays locally without an API key,
+ * anything else uses the live API.
+ */
+function createMusicBackend(): MusicBackend {
+  const name = new URLSearchParams(window.location.search).get('backend') ?? process.env.MUSIC_BACKEND;
+  if (name === 'mock') return new MockMusicBackend();
+  // FIX: Initialize with `process.env.API_KEY` and remove `apiVersion` as per Gemini API guidelines.
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return new LyriaBackend(ai, model);
+}
+
 function main() {
   const initialPresets = buildInitialPresets();
 
   const pdjMidi = new PromptDjMidi(initialPresets);
-  // FIX: Cast to `any` to fix missing DOM types error.
-  // FIX: Use globalThis to access document, as it is not available in the current scope.
-  (globalThis as any).document.body.appendChild(pdjMidi);
+  document.body.appendChild(pdjMidi);
 
   const toastMessage = new ToastMessage();
-  // FIX: Cast to `any` to fix missing DOM types error.
-  // FIX: Use globalThis to access document, as it is not available in the current scope.
-  (globalThis as any).document.body.appendChild(toastMessage);
+  document.body.appendChild(toastMessage);
 
-  const liveMusicHelper = new LiveMusicHelper(ai, model);
-  liveMusicHelper.setWeightedPrompts(initialPresets.get('Ambient Dreams')!);
+  const liveMusicHelper = new LiveMusicHelper(createMusicBackend());
+  const initialPreset = initialPresets.get('Ambient Dreams')!;
+  liveMusicHelper.setWeightedPrompts(initialPreset.prompts);
+  liveMusicHelper.setMusicGenerationConfig(initialPreset.config);
 
   const audioAnalyser = new AudioAnalyser(liveMusicHelper.audioContext);
   liveMusicHelper.extraDestination = audioAnalyser.node;
+  pdjMidi.audioAnalyser = audioAnalyser;
+  const beatDetector = new BeatDetector(audioAnalyser);
+  pdjMidi.beatDetector = beatDetector;
+
+  const takeStore = new TakeStore();
+  const recorder = new SessionRecorder(takeStore);
+  recorder.logPrompts(initialPreset.prompts);
+  pdjMidi.takeStore = takeStore;
+  const cueOutput = new CueOutput();
+  pdjMidi.cueOutput = cueOutput;
+
+  liveMusicHelper.addEventListener('audio-chunk', (e) => {
+    recorder.addAudio(e.detail);
+  });
+
+  pdjMidi.addEventListener('record-toggle', () => {
+    recorder.toggle();
+  });
 
-  // FIX: Cast to `any` to fix missing `addEventListener` property due to lack of DOM types.
-  (pdjMidi as any).addEventListener('prompts-changed', ((e: Event) => {
-    const customEvent = e as CustomEvent<Map<string, Prompt>>;
-    const prompts = customEvent.detail;
+  recorder.addEventListener('recording-state-changed', (e) => {
+    pdjMidi.recordingState = e.detail;
+  });
+
+  pdjMidi.addEventListener('prompts-changed', (e) => {
+    const prompts = e.detail;
     liveMusicHelper.setWeightedPrompts(prompts);
-  }));
+    recorder.logPrompts(prompts);
+  });
+
+  pdjMidi.addEventListener('config-changed', (e) => {
+    liveMusicHelper.setMusicGenerationConfig(e.detail);
+  });
+
+  pdjMidi.addEventListener('fx-changed', (e) => {
+    liveMusicHelper.fx.set(e.detail);
+  });
 
-  // FIX: Cast to `any` to fix missing `addEventListener` property due to lack of DOM types.
-  (pdjMidi as any).addEventListener('play-pause', () => {
+  pdjMidi.addEventListener('volume-changed', (e) => {
+    liveMusicHelper.setVolume(e.detail);
+  });
+
+  pdjMidi.addEventListener('cue-volume-changed', (e) => {
+    cueOutput.setVolume(e.detail);
+  });
+
+  // The sinks in use, so only a changed one is switched.
+  const sinks = { mainSinkId: '', cueSinkId: '' };
+  pdjMidi.addEventListener('output-changed', async (e) => {
+    const { mainSinkId, cueSinkId } = e.detail;
+    if (!supportsSinkSelection()) return;
+    try {
+      if (mainSinkId !== sinks.mainSinkId) {
+        await liveMusicHelper.setSinkId(mainSinkId);
+        sinks.mainSinkId = mainSinkId;
+      }
+      if (cueSinkId !== sinks.cueSinkId) {
+        await cueOutput.setSinkId(cueSinkId);
+        sinks.cueSinkId = cueSinkId;
+      }
+    } catch (e) {
+      toastMessage.show(`Unable to switch the audio output: ${(e as Error).message}`);
+    }
+  });
+
+  pdjMidi.addEventListener('play-pause', () => {
     liveMusicHelper.playPause();
   });
 
-  liveMusicHelper.addEventListener('playback-state-changed', ((e: Event) => {
-    const customEvent = e as CustomEvent<PlaybackState>;
-    const playbackState = customEvent.detail;
+  liveMusicHelper.addEventListener('playback-state-changed', (e) => {
+    const playbackState = e.detail;
     pdjMidi.playbackState = playbackState;
-    playbackState === 'playing' ? audioAnalyser.start() : audioAnalyser.stop();
-  }));
-
-  liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
-    const customEvent = e as CustomEvent<any>;
-    const filteredPrompt = customEvent.detail;
-    toastMessage.show(filteredPrompt.filteredReason!)
-    pdjMidi.addFilteredPrompt(filteredPrompt.text!);
-  }));
-
-  const errorToast = ((e: Event) => {
-    const customEvent = e as CustomEvent<string>;
-    const error = customEvent.detail;
-    toastMessage.show(error);
+    if (playbackState === 'playing') {
+      audioAnalyser.start();
+    } else {
+      audioAnalyser.stop();
+      beatDetector.reset();
+    }
+  });
+
+  liveMusicHelper.addEventListener('filtered-prompt', (e) => {
+    const { text, filteredReason } = e.detail;
+    if (filteredReason) toastMessage.show(filteredReason);
+    if (text) pdjMidi.addFilteredPrompt(text);
   });
 
-  liveMusicHelper.addEventListener('error', errorToast);
-  // FIX: Cast to `any` to fix missing `addEventListener` property due to lack of DOM types.
-  (pdjMidi as any).addEventListener('error', errorToast);
+  const showToast = (e: CustomEvent<string>) => {
+    toastMessage.show(e.detail);
+  };
 
-  audioAnalyser.addEventListener('audio-level-changed', ((e: Event) => {
-    const customEvent = e as CustomEvent<number>;
-    const level = customEvent.detail;
-    pdjMidi.audioLevel = level;
-  }));
+  liveMusicHelper.addEventListener('error', showToast);
+  liveMusicHelper.addEventListener('warning', showToast);
+  recorder.addEventListener('error', showToast);
+  pdjMidi.addEventListener('error', showToast);
+  pdjMidi.addEventListener('notice', showToast);
+
+  audioAnalyser.addEventListener('audio-level-changed', (e) => {
+    pdjMidi.audioLevel = e.detail;
+  });
 
 }
 
 function buildInitialPresets() {
-  const presets = new Map<string, Map<string, Prompt>>();
+  const presets = new Map<string, Preset>();
   for (const [name, prompts] of Object.entries(DEFAULT_PRESETS)) {
     const promptMap = new Map<string, Prompt>();
     for (let i = 0; i < prompts.length; i++) {
@@ -94,7 +167,8 @@ function buildInitialPresets() {
         color,
       });
     }
-    presets.set(name, promptMap);
+    const config = DEFAULT_PRESET_CONFIGS[name as keyof typeof DEFAULT_PRESETS];
+    presets.set(name, { prompts: promptMap, config: { ...config } });
   }
   return presets;
 }
@@ -156,5 +230,10 @@ const DEFAULT_PRESETS = {
   ],
 };
 
+const DEFAULT_PRESET_CONFIGS: Record<keyof typeof DEFAULT_PRESETS, MusicConfig> = {
+  'Ambient Dreams': { bpm: 70, density: 0.3, brightness: 0.4, scale: Scale.D_MAJOR_B_MINOR },
+  'Synthwave Drive': { bpm: 110, density: 0.6, brightness: 0.7, scale: Scale.A_MAJOR_G_FLAT_MINOR },
+  'Lo-Fi Beats': { bpm: 85, density: 0.5, brightness: 0.3, scale: Scale.F_MAJOR_D_MINOR },
+};
 
 main();
\ No newline at end of file
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { bandLevels, blockLevels, ShortTermLoudness, toDb } from '../utils/AudioAnalyser';
+
+describe('bandLevels', () => {
+  it('averages the bins below 250 Hz, up to 2.5 kHz and above', () => {
+    // 100 Hz bins: 100-200 Hz are low, 300-2400 Hz mid and 2500 Hz up high.
+    const freqData = new Uint8Array(40);
+    freqData.fill(255, 1, 3);
+    freqData.fill(51, 3, 25);
+
+    expect(bandLevels(freqData, 100)).toEqual({ low: 1, mid: 0.2, high: 0 });
+  });
+
+  it('ignores the DC bin', () => {
+    const freqData = new Uint8Array(4);
+    freqData[0] = 255;
+
+    expect(bandLevels(freqData, 100).low).toBe(0);
+  });
+});
+
+describe('blockLevels', () => {
+  it('measures the mean square and peak', () => {
+    const { meanSquare, peak } = blockLevels(new Float32Array([0.5, -1, 0.5, 0]));
+
+    expect(meanSquare).toBe(0.375);
+    expect(peak).toBe(1);
+  });
+
+  it('reads silence as minus infinity dBFS', () => {
+    const { meanSquare, peak } = blockLevels(new Float32Array(8));
+
+    expect(toDb(Math.sqrt(meanSquare))).toBe(-Infinity);
+    expect(toDb(peak)).toBe(-Infinity);
+    expect(toDb(0.5)).toBeCloseTo(-6.02);
+  });
+});
+
+describe('ShortTermLoudness', () => {
+  it('is minus infinity until measured', () => {
+    expect(new ShortTermLoudness().lufs).toBe(-Infinity);
+  });
+
+  it('averages the blocks within the window', () => {
+    const loudness = new ShortTermLoudness(3000);
+
+    // A full scale sine has a mean square of 0.5.
+    loudness.add(0.5, 0);
+    expect(loudness.lufs).toBeCloseTo(-3.7, 1);
+
+    loudness.add(0.05, 1000);
+    expect(loudness.lufs).toBeCloseTo(-0.691 + 10 * Math.log10(0.275));
+  });
+
+  it('forgets blocks older than the window', () => {
+    const loudness = new ShortTermLoudness(3000);
+
+    loudness.add(0.5, 0);
+    loudness.add(0.005, 3000);
+
+    expect(loudness.lufs).toBeCloseTo(-23.7, 1);
+
+    loudness.reset();
+    expect(loudness.lufs).toBe(-Infinity);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { BeatDetector, estimateTempo, foldBpm } from '../utils/BeatDetector';
+import type { Beat } from '../utils/BeatDetector';
+
+const FRAME_MS = 10;
+
+const SILENCE = new Uint8Array(64);
+const HIT = new Uint8Array(64).fill(200);
+
+/** Feeds frames with a hit every `intervalMs`, from `from` up to `to` ms. */
+function play(detector: BeatDetector, intervalMs: number, from: number, to: number) {
+  for (let time = from; time < to; time += FRAME_MS) {
+    const hit = (time - from) % intervalMs === 0;
+    detector.process(hit ? HIT : SILENCE, time);
+  }
+}
+
+describe('estimateTempo', () => {
+  it('needs a few onsets', () => {
+    expect(estimateTempo([0, 500, 1000])).toBeNull();
+  });
+
+  it('finds the beat interval', () => {
+    expect(estimateTempo([0, 500, 1000, 1500, 2000])).toBeCloseTo(120);
+  });
+
+  it('tolerates missing and extra onsets', () => {
+    expect(estimateTempo([0, 600, 1200, 1500, 2400, 3000, 3600])).toBeCloseTo(100);
+  });
+});
+
+describe('foldBpm', () => {
+  it('folds tempos by octaves', () => {
+    expect(foldBpm(60)).toBe(120);
+    expect(foldBpm(200)).toBe(100);
+    expect(foldBpm(90)).toBe(90);
+  });
+});
+
+describe('BeatDetector', () => {
+  let detector: BeatDetector;
+  let beats: Beat[];
+  let onsets: number[];
+
+  beforeEach(() => {
+    detector = new BeatDetector();
+    beats = [];
+    onsets = [];
+    detector.addEventListener('beat', (e) => beats.push(e.detail));
+    detector.addEventListener('onset', (e) => onsets.push(e.detail));
+    // Onsets are rises from the frame before.
+    detector.process(SILENCE, -FRAME_MS);
+  });
+
+  it('detects onsets and the tempo', () => {
+    play(detector, 500, 0, 4000);
+
+    expect(onsets).toEqual([0, 500, 1000, 1500, 2000, 2500, 3000, 3500]);
+    expect(detector.bpm).toBeCloseTo(120);
+  });
+
+  it('counts beats through the bar once the tempo is known', () => {
+    play(detector, 500, 0, 4000);
+
+    expect(beats.map((b) => b.beat)).toEqual([0, 1, 2, 3, 0]);
+    expect(detector.beatInBar).toBe(0);
+  });
+
+  it('tells how long until the next beat or bar', () => {
+    play(detector, 500, 0, 3610);
+
+    // The last beat was the downbeat at 3500.
+    expect(detector.msUntilNext('beat', 3610)).toBeCloseTo(390);
+    expect(detector.msUntilNext('bar', 3610)).toBeCloseTo(1890);
+  });
+
+  it('has no grid until a tempo is known', () => {
+    play(detector, 500, 0, 1200);
+
+    expect(detector.bpm).toBeNull();
+    expect(detector.msUntilNext('beat', 1200)).toBeNull();
+    expect(beats).toEqual([]);
+  });
+
+  it('uses the reference tempo when aligned to it', () => {
+    detector.setReferenceBpm(100);
+
+    play(detector, 600, 0, 1300);
+
+    expect(detector.bpm).toBe(100);
+    expect(beats.map((b) => b.bpm)).toEqual([100, 100, 100]);
+  });
+
+  it('waits for an onset after a gap rather than catching up', () => {
+    play(detector, 500, 0, 4000);
+    const count = beats.length;
+
+    detector.process(SILENCE, 10000);
+
+    expect(beats).toHaveLength(count);
+    expect(detector.msUntilNext('beat', 10000)).toBeNull();
+  });
+
+  it('forgets everything on reset', () => {
+    play(detector, 500, 0, 4000);
+
+    detector.reset();
+
+    expect(detector.bpm).toBeNull();
+    expect(detector.beatInBar).toBeNull();
+  });
+});
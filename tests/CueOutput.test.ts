@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CueOutput } from '../utils/CueOutput';
+import { FakeAudioContext } from './fakes';
+
+describe('CueOutput', () => {
+  let contexts: FakeAudioContext[];
+  let cue: CueOutput;
+  let cued: Array<string | null>;
+
+  beforeEach(() => {
+    contexts = [];
+    vi.stubGlobal('AudioContext', class extends FakeAudioContext {
+      constructor(options?: AudioContextOptions) {
+        super(options);
+        contexts.push(this);
+      }
+    });
+    cue = new CueOutput();
+    cued = [];
+    cue.addEventListener('cue-changed', (e) => cued.push(e.detail));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function take(seconds: number) {
+    return [new Float32Array(seconds * 48000), new Float32Array(seconds * 48000)];
+  }
+
+  it('only creates its context once something is cued', () => {
+    expect(contexts).toHaveLength(0);
+
+    cue.play('take-1', take(1), 48000);
+
+    expect(contexts).toHaveLength(1);
+    const [source] = contexts[0].sources;
+    expect(source.buffer!.numberOfChannels).toBe(2);
+    expect(source.buffer!.duration).toBe(1);
+    expect(source.startedAt).toBe(0);
+    expect(cue.cued).toBe('take-1');
+    expect(cued).toEqual(['take-1']);
+  });
+
+  it('replaces what was cued before', () => {
+    cue.play('take-1', take(1), 48000);
+    cue.play('take-2', take(1), 48000);
+    const [first, second] = contexts[0].sources;
+
+    expect(first.stop).toHaveBeenCalledOnce();
+    // The replaced take ending doesn't clear the new one.
+    first.onended!();
+    expect(cue.cued).toBe('take-2');
+    second.onended!();
+    expect(cue.cued).toBeNull();
+    expect(cued).toEqual(['take-1', 'take-2', null]);
+  });
+
+  it('stops', () => {
+    cue.play('take-1', take(1), 48000);
+    cue.stop();
+
+    expect(contexts[0].sources[0].stop).toHaveBeenCalledOnce();
+    expect(cued).toEqual(['take-1', null]);
+  });
+
+  it('plays to its own output device', async () => {
+    cue.setVolume(2);
+    await cue.setSinkId('headphones');
+
+    expect(contexts[0].sinkId).toBe('headphones');
+    expect(contexts[0].gains[0].gain.value).toBe(1);
+  });
+});
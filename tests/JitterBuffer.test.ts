@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { JitterBuffer } from '../utils/JitterBuffer';
+
+/** Records chunks of one second arriving at the given times. */
+function arrive(buffer: JitterBuffer, ...times: number[]) {
+  for (const time of times) {
+    buffer.recordArrival(time, 1);
+    buffer.recordInTime();
+  }
+}
+
+describe('JitterBuffer', () => {
+  it('starts with a two second target', () => {
+    expect(new JitterBuffer().targetSeconds).toBe(2);
+  });
+
+  it('shrinks the target while chunks arrive steadily', () => {
+    const buffer = new JitterBuffer();
+
+    arrive(buffer, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19);
+
+    expect(buffer.getHealth(0).jitterSeconds).toBe(0);
+    expect(buffer.targetSeconds).toBeLessThan(0.7);
+    expect(buffer.targetSeconds).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('grows the target with jittery arrivals', () => {
+    const steady = new JitterBuffer();
+    const jittery = new JitterBuffer();
+
+    arrive(steady, 0, 1, 2, 3, 4, 5, 6, 7);
+    arrive(jittery, 0, 1.5, 1.6, 3.4, 3.5, 5.5, 5.6, 7.4);
+
+    expect(jittery.getHealth(0).jitterSeconds).toBeGreaterThan(0.1);
+    expect(jittery.targetSeconds).toBeGreaterThan(steady.targetSeconds);
+  });
+
+  it('counts underruns and raises the target for each', () => {
+    const buffer = new JitterBuffer();
+    const target = buffer.targetSeconds;
+
+    buffer.recordUnderrun();
+    buffer.recordUnderrun();
+
+    expect(buffer.getHealth(0).underruns).toBe(2);
+    expect(buffer.targetSeconds).toBe(target + 1);
+  });
+
+  it('caps the target', () => {
+    const buffer = new JitterBuffer();
+
+    for (let i = 0; i < 20; i++) buffer.recordUnderrun();
+
+    expect(buffer.targetSeconds).toBe(6);
+  });
+
+  it('does not count a gap after resetting arrivals as jitter', () => {
+    const buffer = new JitterBuffer();
+
+    arrive(buffer, 0, 1);
+    buffer.resetArrivals();
+    arrive(buffer, 60, 61);
+
+    expect(buffer.getHealth(0).jitterSeconds).toBe(0);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { PlaybackState, Prompt } from '../types';
+import {
+  CONTEXT_RESET_DELAY_MS,
+  CROSSFADE_SECONDS,
+  LiveMusicHelper,
+  MAX_RECONNECT_ATTEMPTS,
+} from '../utils/LiveMusicHelper';
+import { PROMPT_UPDATE_INTERVAL_MS } from '../utils/MusicBackend';
+import { FakeAudioContext, FakeMusicBackend, silentChunk } from './fakes';
+
+function prompt(text: string, weight: number, extra: Partial<Prompt> = {}): Prompt {
+  return { promptId: text, text, weight, cc: 0, color: '#fff', ...extra };
+}
+
+function promptMap(...prompts: Prompt[]) {
+  return new Map(prompts.map((p) => [p.promptId, p]));
+}
+
+describe('LiveMusicHelper', () => {
+  let backend: FakeMusicBackend;
+  let helper: LiveMusicHelper;
+  let ctx: FakeAudioContext;
+  let states: PlaybackState[];
+  let errors: string[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    backend = new FakeMusicBackend();
+    helper = new LiveMusicHelper(backend);
+    ctx = helper.audioContext as unknown as FakeAudioContext;
+    states = [];
+    errors = [];
+    helper.addEventListener('playback-state-changed', (e) => states.push(e.detail));
+    helper.addEventListener('error', (e) => errors.push(e.detail));
+    helper.setWeightedPrompts(promptMap(prompt('Drums', 1)));
+    helper.setMusicGenerationConfig({ bpm: 90 });
+    vi.advanceTimersByTime(PROMPT_UPDATE_INTERVAL_MS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  /** Starts playback and lets the first chunk play through the buffer. */
+  async function startPlaying() {
+    await helper.play();
+    await backend.callbacks!.onAudioChunk(silentChunk(1));
+    vi.advanceTimersByTime(2000);
+  }
+
+  it('connects and sends the prompts and config on play', async () => {
+    await helper.play();
+
+    expect(states).toEqual(['loading']);
+    expect(backend.session.prompts.map((p) => p.text)).toEqual(['Drums']);
+    expect(backend.session.config).toEqual({ bpm: 90 });
+    expect(backend.session.play).toHaveBeenCalledOnce();
+  });
+
+  it('buffers the first chunk before playing', async () => {
+    await helper.play();
+    await backend.callbacks!.onAudioChunk(silentChunk(1));
+    await backend.callbacks!.onAudioChunk(silentChunk(1));
+
+    expect(ctx.sources.map((s) => s.startedAt)).toEqual([2, 3]);
+    expect(states).toEqual(['loading']);
+
+    vi.advanceTimersByTime(2000);
+    expect(states).toEqual(['loading', 'playing']);
+  });
+
+  it('buffers up again without dropping audio when a chunk is late', async () => {
+    await startPlaying();
+    const { targetSeconds } = helper.getBufferHealth();
+
+    ctx.currentTime = 5;
+    await backend.callbacks!.onAudioChunk(silentChunk(1));
+
+    expect(states.at(-1)).toBe('loading');
+    const health = helper.getBufferHealth();
+    expect(health.underruns).toBe(1);
+    expect(health.targetSeconds).toBeGreaterThan(targetSeconds);
+    expect(ctx.sources.at(-1)!.startedAt).toBe(5 + health.targetSeconds);
+    expect(health.queuedSeconds).toBeCloseTo(health.targetSeconds + 1);
+    // The late chunk fades in.
+    expect(ctx.gains.at(-1)!.gain.setValueAtTime).toHaveBeenCalledWith(0, 5 + health.targetSeconds);
+
+    vi.advanceTimersByTime(health.targetSeconds * 1000);
+    expect(states.at(-1)).toBe('playing');
+  });
+
+  it('crossfades a chunk that arrives while the last one fades out', async () => {
+    await startPlaying();
+
+    ctx.currentTime = 3 - CROSSFADE_SECONDS / 2;
+    await backend.callbacks!.onAudioChunk(silentChunk(1));
+
+    expect(states.at(-1)).toBe('playing');
+    expect(helper.getBufferHealth().underruns).toBe(1);
+    expect(ctx.sources.at(-1)!.startedAt).toBe(ctx.currentTime);
+    const fade = ctx.gains.at(-1)!.gain;
+    expect(fade.setValueAtTime).toHaveBeenCalledWith(0, ctx.currentTime);
+    expect(fade.linearRampToValueAtTime).toHaveBeenCalledWith(1, ctx.currentTime + CROSSFADE_SECONDS);
+  });
+
+  it('keeps the last chunk at full volume when the next is in time', async () => {
+    await helper.play();
+    await backend.callbacks!.onAudioChunk(silentChunk(1));
+    const firstChunkGain = ctx.gains.at(-1)!.gain;
+
+    await backend.callbacks!.onAudioChunk(silentChunk(1));
+
+    expect(firstChunkGain.cancelScheduledValues).toHaveBeenCalledWith(3 - CROSSFADE_SECONDS);
+    expect(ctx.gains.at(-1)!.gain.setValueAtTime).toHaveBeenCalledWith(1, 3);
+    expect(helper.getBufferHealth().underruns).toBe(0);
+  });
+
+  it('ignores chunks while paused', async () => {
+    await startPlaying();
+    helper.pause();
+
+    await backend.callbacks!.onAudioChunk(silentChunk(1));
+
+    expect(ctx.sources).toHaveLength(1);
+  });
+
+  it('moves through the playPause states', async () => {
+    await helper.playPause();
+    expect(states).toEqual(['loading']);
+
+    // Loading stops.
+    await helper.playPause();
+    expect(states).toEqual(['loading', 'stopped']);
+    expect(backend.session.stop).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(PROMPT_UPDATE_INTERVAL_MS);
+    await startPlaying();
+    expect(states.at(-1)).toBe('playing');
+
+    await helper.playPause();
+    expect(states.at(-1)).toBe('paused');
+
+    // Play waits for the prompt update throttle.
+    const playing = helper.playPause();
+    await vi.advanceTimersByTimeAsync(PROMPT_UPDATE_INTERVAL_MS);
+    await playing;
+    expect(states.at(-1)).toBe('loading');
+  });
+
+  it('pauses when no prompt is active', async () => {
+    await startPlaying();
+    vi.advanceTimersByTime(PROMPT_UPDATE_INTERVAL_MS);
+
+    helper.setWeightedPrompts(promptMap(prompt('Drums', 0)));
+
+    expect(errors).toEqual(['There needs to be one active prompt to play.']);
+    expect(states.at(-1)).toBe('paused');
+  });
+
+  it('sends the last weights of a burst of changes', async () => {
+    await startPlaying();
+
+    helper.setWeightedPrompts(promptMap(prompt('Drums', 0.5)));
+    helper.setWeightedPrompts(promptMap(prompt('Drums', 0.7)));
+    expect(backend.session.prompts[0].weight).toBe(0.5);
+
+    await vi.advanceTimersByTimeAsync(PROMPT_UPDATE_INTERVAL_MS);
+    expect(backend.session.prompts[0].weight).toBe(0.7);
+  });
+
+  it('resets the context once the BPM settles', async () => {
+    const warnings: string[] = [];
+    helper.addEventListener('warning', (e) => warnings.push(e.detail));
+    await startPlaying();
+
+    for (const bpm of [95, 100, 105, 110]) {
+      helper.setMusicGenerationConfig({ bpm });
+      await vi.advanceTimersByTimeAsync(PROMPT_UPDATE_INTERVAL_MS);
+    }
+    expect(backend.session.config).toEqual({ bpm: 110 });
+    expect(backend.session.resetContext).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(CONTEXT_RESET_DELAY_MS);
+    expect(backend.session.resetContext).toHaveBeenCalledOnce();
+    expect(warnings).toEqual(['BPM or scale changed, the music will restart from a new context.']);
+  });
+
+  it('does not reset the context when the BPM comes back to where it was', async () => {
+    await startPlaying();
+
+    helper.setMusicGenerationConfig({ bpm: 120 });
+    await vi.advanceTimersByTimeAsync(PROMPT_UPDATE_INTERVAL_MS);
+    helper.setMusicGenerationConfig({ bpm: 90 });
+    await vi.advanceTimersByTimeAsync(PROMPT_UPDATE_INTERVAL_MS + CONTEXT_RESET_DELAY_MS);
+
+    expect(backend.session.resetContext).not.toHaveBeenCalled();
+  });
+
+  it('leaves filtered prompts out from then on', async () => {
+    const filtered: string[] = [];
+    helper.addEventListener('filtered-prompt', (e) => filtered.push(e.detail.text!));
+    vi.advanceTimersByTime(PROMPT_UPDATE_INTERVAL_MS);
+    helper.setWeightedPrompts(promptMap(prompt('Drums', 1), prompt('Forbidden', 1)));
+    vi.advanceTimersByTime(PROMPT_UPDATE_INTERVAL_MS);
+    await helper.play();
+
+    backend.callbacks!.onFilteredPrompt({ text: 'Forbidden', filteredReason: 'Not allowed' });
+
+    expect(filtered).toEqual(['Forbidden']);
+    expect(helper.activePrompts.map((p) => p.text)).toEqual(['Drums']);
+  });
+
+  it('applies mutes and solos to the active prompts', () => {
+    vi.advanceTimersByTime(PROMPT_UPDATE_INTERVAL_MS);
+    helper.setWeightedPrompts(promptMap(
+      prompt('Drums', 1, { soloed: true }),
+      prompt('Bass', 1),
+      prompt('Keys', 1, { muted: true, soloed: true }),
+    ));
+
+    expect(helper.activePrompts.map((p) => p.text)).toEqual(['Drums']);
+  });
+
+  it('reconnects a dropped session and restores its state', async () => {
+    await startPlaying();
+
+    backend.callbacks!.onClose();
+    expect(states.at(-1)).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(backend.sessions).toHaveLength(2);
+    expect(backend.session.prompts.map((p) => p.text)).toEqual(['Drums']);
+    expect(backend.session.config).toEqual({ bpm: 90 });
+    expect(backend.session.play).toHaveBeenCalledOnce();
+
+    await backend.callbacks!.onAudioChunk(silentChunk(1));
+    expect(states.at(-1)).toBe('playing');
+  });
+
+  it('reports a failed first connection and stops', async () => {
+    backend.connect = async () => {
+      throw new Error('API key not valid');
+    };
+
+    await helper.play();
+
+    expect(states).toEqual(['loading', 'stopped']);
+    expect(errors).toEqual(['Unable to connect: API key not valid']);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    await startPlaying();
+    backend.connect = async () => {
+      throw new Error('offline');
+    };
+
+    backend.callbacks!.onError();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(states.at(-1)).toBe('stopped');
+    expect(errors).toEqual([
+      `Connection lost, gave up after ${MAX_RECONNECT_ATTEMPTS} attempts. Please restart audio.`,
+    ]);
+  });
+
+  it('does not reconnect a stopped session', async () => {
+    await startPlaying();
+    helper.stop();
+
+    backend.callbacks!.onClose();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(states.at(-1)).toBe('stopped');
+    expect(backend.sessions).toHaveLength(1);
+  });
+
+  it('plays to the chosen output device', async () => {
+    await helper.setSinkId('headphones');
+    expect(ctx.sinkId).toBe('headphones');
+  });
+
+  it('rejects output selection where the browser lacks it', async () => {
+    Object.assign(ctx, { setSinkId: undefined });
+    await expect(helper.setSinkId('headphones')).rejects.toThrow('cannot choose the audio output');
+  });
+});
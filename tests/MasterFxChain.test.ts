@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { delaySeconds, filterResponse, MasterFxChain } from '../utils/MasterFxChain';
+import { FakeAudioContext } from './fakes';
+
+/** The value an audio param was last ramped to. */
+function target(param: { setTargetAtTime: { mock: { calls: unknown[][] } } }) {
+  return param.setTargetAtTime.mock.calls.at(-1)?.[0];
+}
+
+describe('filterResponse', () => {
+  it('is a fully open low-pass in the middle', () => {
+    expect(filterResponse(0)).toEqual({ type: 'lowpass', frequency: 20000 });
+  });
+
+  it('closes the low-pass to the left', () => {
+    const half = filterResponse(-0.5);
+    const closed = filterResponse(-1);
+
+    expect(half.type).toBe('lowpass');
+    expect(half.frequency).toBeLessThan(20000);
+    expect(closed.frequency).toBeLessThan(half.frequency);
+    expect(closed.frequency).toBeCloseTo(100);
+  });
+
+  it('opens a high-pass to the right', () => {
+    const start = filterResponse(0.01);
+    const open = filterResponse(1);
+
+    expect(start.type).toBe('highpass');
+    expect(start.frequency).toBeLessThan(25);
+    expect(open.frequency).toBeCloseTo(8000);
+  });
+
+  it('clamps out of range settings', () => {
+    expect(filterResponse(2)).toEqual(filterResponse(1));
+    expect(filterResponse(-2)).toEqual(filterResponse(-1));
+  });
+});
+
+describe('delaySeconds', () => {
+  it('follows the tempo', () => {
+    expect(delaySeconds(1, 120)).toBe(0.5);
+    expect(delaySeconds(0.75, 90)).toBe(0.5);
+  });
+
+  it('is capped at the longest delay', () => {
+    expect(delaySeconds(2, 20)).toBe(4);
+  });
+});
+
+describe('MasterFxChain.set', () => {
+  let ctx: FakeAudioContext;
+  let chain: MasterFxChain;
+
+  // Gains are created as input, output, the EQ sum, the three bands, then
+  // the delay send, delay feedback and reverb send.
+  const bands = () => ctx.gains.slice(3, 6);
+  const delaySend = () => ctx.gains[6];
+  const delayFeedback = () => ctx.gains[7];
+  const reverbSend = () => ctx.gains[8];
+
+  beforeEach(() => {
+    ctx = new FakeAudioContext();
+    chain = new MasterFxChain(ctx as unknown as BaseAudioContext);
+  });
+
+  it('starts neutral', () => {
+    expect(bands().map((band) => target(band.gain))).toEqual([1, 1, 1]);
+    expect(target(ctx.compressors[0].ratio)).toBe(1);
+    expect(target(delaySend().gain)).toBe(0);
+    expect(target(reverbSend().gain)).toBe(0);
+  });
+
+  it('gives the crossover stages a Butterworth Q in dB', () => {
+    // The last filter is the sweep, the others make up the EQ.
+    const eq = ctx.filters.slice(0, -1);
+    const crossovers = eq.filter((stage) => stage.type !== 'allpass');
+    const allpasses = eq.filter((stage) => stage.type === 'allpass');
+
+    expect(crossovers).toHaveLength(10);
+    for (const stage of crossovers) expect(stage.Q.value).toBeCloseTo(-3.01, 2);
+    expect(allpasses).toHaveLength(1);
+    expect(allpasses[0].Q.value).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('leaves the filter flat at rest and adds resonance in dB when swept', () => {
+    const filter = ctx.filters[ctx.filters.length - 1];
+    expect(target(filter.Q)).toBeCloseTo(-3.01, 2);
+
+    chain.set({ filter: -0.5, resonance: 0.5 });
+    expect(target(filter.Q)).toBeCloseTo(-3.01 + 12, 2);
+  });
+
+  it('silences killed bands whatever their level', () => {
+    chain.set({ eqLow: 6, killLow: true, killHigh: true });
+
+    const [low, mid, high] = bands().map((band) => target(band.gain));
+    expect(low).toBe(0);
+    expect(mid).toBe(1);
+    expect(high).toBe(0);
+  });
+
+  it('brings a band back to its level when the kill is released', () => {
+    chain.set({ eqMid: -6, killMid: true });
+    chain.set({ eqMid: -6 });
+
+    expect(target(bands()[1].gain)).toBeCloseTo(0.501, 3);
+  });
+
+  it('lowers the threshold and raises the ratio with the compressor amount', () => {
+    chain.set({ compressor: 0.5 });
+    const [compressor] = ctx.compressors;
+    expect(target(compressor.threshold)).toBe(-12);
+    expect(target(compressor.ratio)).toBe(6.5);
+
+    chain.set({ compressor: 1 });
+    expect(target(compressor.threshold)).toBe(-24);
+    expect(target(compressor.ratio)).toBe(12);
+  });
+
+  it('sets the send levels and the delay feedback', () => {
+    chain.set({ delaySend: 0.3, delayFeedback: 0.6, reverbSend: 0.7 });
+
+    expect(target(delaySend().gain)).toBe(0.3);
+    expect(target(delayFeedback().gain)).toBe(0.6);
+    expect(target(reverbSend().gain)).toBe(0.7);
+  });
+
+  it('times the delay to the tempo', () => {
+    chain.set({ delayBeats: 1 });
+    expect(target(ctx.delays[0].delayTime)).toBe(0.5);
+
+    chain.setBpm(60);
+    expect(target(ctx.delays[0].delayTime)).toBe(1);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MidiDispatcher } from '../utils/MidiDispatcher';
+
+interface FakeInput {
+  id: string;
+  name: string;
+  onmidimessage: ((event: { data: Uint8Array | null }) => void) | null;
+}
+
+function fakeInput(id: string, name: string): FakeInput {
+  return { id, name, onmidimessage: null };
+}
+
+describe('MidiDispatcher', () => {
+  let inputs: Map<string, FakeInput>;
+  let outputs: Map<string, { name: string; state: string; send: ReturnType<typeof vi.fn> }>;
+  let access: { inputs: typeof inputs; outputs: typeof outputs; onstatechange: (() => void) | null };
+  let dispatcher: MidiDispatcher;
+
+  beforeEach(() => {
+    inputs = new Map([['in-1', fakeInput('in-1', 'Pads')]]);
+    outputs = new Map();
+    access = { inputs, outputs, onstatechange: null };
+    vi.stubGlobal('navigator', { requestMIDIAccess: vi.fn(async () => access) });
+    dispatcher = new MidiDispatcher();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function send(id: string, bytes: number[]) {
+    inputs.get(id)!.onmidimessage!({ data: new Uint8Array(bytes) });
+  }
+
+  function listen(type: Parameters<MidiDispatcher['addEventListener']>[0]) {
+    const details: unknown[] = [];
+    dispatcher.addEventListener(type, (e: CustomEvent<unknown>) => details.push(e.detail));
+    return details;
+  }
+
+  it('enables the first input', async () => {
+    expect(await dispatcher.getMidiAccess()).toEqual(['in-1']);
+    expect(dispatcher.isInputEnabled('in-1')).toBe(true);
+    expect(dispatcher.getEnabledDeviceNames()).toEqual(['Pads']);
+  });
+
+  it('throws when Web MIDI is not supported', async () => {
+    vi.stubGlobal('navigator', {});
+    await expect(dispatcher.getMidiAccess()).rejects.toThrow(/does not support the Web MIDI API/);
+  });
+
+  it('throws when access is denied', async () => {
+    vi.stubGlobal('navigator', { requestMIDIAccess: vi.fn(async () => { throw new Error('denied'); }) });
+    await expect(dispatcher.getMidiAccess()).rejects.toThrow('Unable to acquire MIDI access: denied');
+  });
+
+  it('dispatches control changes with the channel and device', async () => {
+    const ccs = listen('cc-message');
+    await dispatcher.getMidiAccess();
+
+    send('in-1', [0xb3, 21, 64]);
+
+    expect(ccs).toEqual([{ device: 'Pads', channel: 3, cc: 21, value: 64 }]);
+  });
+
+  it('treats Note On with velocity 0 as Note Off', async () => {
+    const notesOn = listen('note-message');
+    const notesOff = listen('note-off-message');
+    await dispatcher.getMidiAccess();
+
+    send('in-1', [0x90, 60, 100]);
+    send('in-1', [0x90, 60, 0]);
+    send('in-1', [0x81, 62, 40]);
+
+    expect(notesOn).toEqual([{ device: 'Pads', channel: 0, note: 60, velocity: 100 }]);
+    expect(notesOff).toEqual([
+      { device: 'Pads', channel: 0, note: 60, velocity: 0 },
+      { device: 'Pads', channel: 1, note: 62, velocity: 40 },
+    ]);
+  });
+
+  it('parses program change, channel pressure and pitch bend', async () => {
+    const programs = listen('program-change-message');
+    const pressures = listen('pressure-message');
+    const bends = listen('pitch-bend-message');
+    await dispatcher.getMidiAccess();
+
+    send('in-1', [0xc2, 5]);
+    send('in-1', [0xd0, 90]);
+    send('in-1', [0xe0, 0x00, 0x40]);
+    send('in-1', [0xe0, 0x00, 0x00]);
+
+    expect(programs).toEqual([{ device: 'Pads', channel: 2, program: 5 }]);
+    expect(pressures).toEqual([{ device: 'Pads', channel: 0, pressure: 90 }]);
+    expect(bends).toEqual([
+      { device: 'Pads', channel: 0, value: 0 },
+      { device: 'Pads', channel: 0, value: -1 },
+    ]);
+  });
+
+  it('ignores messages from disabled inputs', async () => {
+    const ccs = listen('cc-message');
+    await dispatcher.getMidiAccess();
+
+    dispatcher.setInputEnabled('in-1', false);
+    send('in-1', [0xb0, 1, 1]);
+
+    expect(ccs).toEqual([]);
+  });
+
+  it('attaches inputs connected later and reports the change', async () => {
+    const changes = listen('inputs-changed');
+    const ccs = listen('cc-message');
+    await dispatcher.getMidiAccess();
+
+    inputs.set('in-2', fakeInput('in-2', 'Knobs'));
+    access.onstatechange!();
+    dispatcher.setInputEnabled('in-2', true);
+    send('in-2', [0xb0, 7, 127]);
+
+    expect(changes).toEqual([['in-1', 'in-2']]);
+    expect(ccs).toEqual([{ device: 'Knobs', channel: 0, cc: 7, value: 127 }]);
+  });
+
+  it('sends to the connected output with the device name', async () => {
+    const send = vi.fn();
+    outputs.set('out-1', { name: 'Pads', state: 'connected', send });
+    await dispatcher.getMidiAccess();
+
+    dispatcher.send('Pads', [0x90, 60, 1]);
+    dispatcher.send('Other', [0x90, 60, 1]);
+
+    expect(send).toHaveBeenCalledOnce();
+    expect(send).toHaveBeenCalledWith([0x90, 60, 1]);
+  });
+});
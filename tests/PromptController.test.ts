@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import '../components/PromptController';
+import type { PromptController } from '../components/PromptController';
+import type { ControlChange, PromptChange } from '../types';
+import { MidiDispatcher } from '../utils/MidiDispatcher';
+
+describe('prompt-controller', () => {
+  let dispatcher: MidiDispatcher;
+  let controller: PromptController;
+  let changes: PromptChange[];
+
+  beforeEach(async () => {
+    dispatcher = new MidiDispatcher();
+    controller = document.createElement('prompt-controller');
+    Object.assign(controller, {
+      promptId: 'prompt-0',
+      text: 'Drums',
+      weight: 0,
+      cc: 0,
+      color: '#ff0000',
+      showCC: true,
+      midiDispatcher: dispatcher,
+    });
+    changes = [];
+    controller.addEventListener('prompt-changed', (e) => {
+      changes.push((e as CustomEvent<PromptChange>).detail);
+    });
+    document.body.append(controller);
+    await controller.updateComplete;
+  });
+
+  afterEach(() => {
+    controller.remove();
+  });
+
+  function sendCc(cc: Partial<ControlChange>) {
+    dispatcher.dispatchEvent(new CustomEvent<ControlChange>('cc-message', {
+      detail: { device: 'Knobs', channel: 0, cc: 0, value: 0, ...cc },
+    }));
+  }
+
+  async function clickMidiBadge() {
+    controller.shadowRoot!.querySelector<HTMLElement>('#midi')!.click();
+    await controller.updateComplete;
+  }
+
+  it('learns the CC, channel and device of the next message', async () => {
+    await clickMidiBadge();
+    expect(controller.learnMode).toBe(true);
+    expect(controller.shadowRoot!.querySelector('#midi')!.textContent).toContain('Learn');
+
+    sendCc({ cc: 21, channel: 3, value: 10 });
+
+    expect(controller.learnMode).toBe(false);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ promptId: 'prompt-0', cc: 21, channel: 3, device: 'Knobs', source: 'midi' });
+    // Learning does not move the weight.
+    expect(changes[0].weight).toBe(0);
+  });
+
+  it('follows the learned CC only', async () => {
+    await clickMidiBadge();
+    sendCc({ cc: 21, channel: 3 });
+    changes = [];
+
+    sendCc({ cc: 22, channel: 3, value: 127 });
+    sendCc({ cc: 21, channel: 4, value: 127 });
+    sendCc({ device: 'Pads', cc: 21, channel: 3, value: 127 });
+    expect(changes).toEqual([]);
+
+    sendCc({ cc: 21, channel: 3, value: 127 });
+    expect(controller.weight).toBe(2);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ weight: 2, source: 'midi' });
+  });
+
+  it('cancels learning when clicked again or when CCs are hidden', async () => {
+    await clickMidiBadge();
+    await clickMidiBadge();
+    expect(controller.learnMode).toBe(false);
+
+    await clickMidiBadge();
+    controller.showCC = false;
+    await controller.updateComplete;
+    expect(controller.learnMode).toBe(false);
+
+    sendCc({ cc: 21 });
+    expect(changes).toEqual([]);
+  });
+
+  async function setRange(id: 'min-weight' | 'max-weight', value: string) {
+    controller.editMode = true;
+    await controller.updateComplete;
+    controller.shadowRoot!.querySelector<HTMLElement>('#response-button')!.click();
+    await controller.updateComplete;
+    const input = controller.shadowRoot!.querySelector<HTMLInputElement>(`#${id}`)!;
+    input.value = value;
+    input.dispatchEvent(new Event('change'));
+    return input;
+  }
+
+  it('clamps the weight into a new range', async () => {
+    controller.weight = 1.8;
+    await setRange('max-weight', '1.5');
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ maxWeight: 1.5, weight: 1.5 });
+  });
+
+  it('rejects an inverted range', async () => {
+    const input = await setRange('min-weight', '3');
+
+    expect(changes).toEqual([]);
+    expect(controller.minWeight).toBe(0);
+    expect(input.value).toBe('0');
+  });
+
+  it('stops listening once disconnected', async () => {
+    controller.remove();
+
+    sendCc({ cc: 0, value: 127 });
+
+    expect(changes).toEqual([]);
+  });
+});
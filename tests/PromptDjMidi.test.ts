@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PromptDjMidi } from '../components/PromptDjMidi';
+import type { FxSettings, Preset, Prompt } from '../types';
+import { BeatDetector } from '../utils/BeatDetector';
+import { parsePresetFile } from '../utils/presetFile';
+
+const STORAGE_KEY = 'prompt-dj-presets-v3';
+
+function preset(texts: string[], bpm: number): Preset {
+  const prompts = new Map<string, Prompt>(texts.map((text, i) => [
+    `prompt-${i}`,
+    { promptId: `prompt-${i}`, text, weight: i === 0 ? 1 : 0, cc: i, color: '#3dffab' },
+  ]));
+  return { prompts, config: { bpm } };
+}
+
+describe('prompt-dj-midi presets', () => {
+  let app: PromptDjMidi;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    app = new PromptDjMidi(new Map([
+      ['Default A', preset(['Drums', 'Bass'], 90)],
+      ['Default B', preset(['Strings', 'Choir'], 70)],
+    ]));
+    document.body.append(app);
+    await app.updateComplete;
+  });
+
+  afterEach(() => {
+    app.remove();
+    vi.restoreAllMocks();
+  });
+
+  function button(title: string) {
+    return app.shadowRoot!.querySelector<HTMLButtonElement>(`button[title="${title}"]`)!;
+  }
+
+  function presetSelect() {
+    return app.shadowRoot!.querySelector<HTMLSelectElement>('#preset-controls select')!;
+  }
+
+  function presetNames() {
+    return [...presetSelect().options].map((o) => o.value);
+  }
+
+  function storedPresets() {
+    return parsePresetFile(localStorage.getItem(STORAGE_KEY)!);
+  }
+
+  async function selectPreset(name: string) {
+    presetSelect().value = name;
+    presetSelect().dispatchEvent(new Event('change'));
+    await app.updateComplete;
+  }
+
+  async function saveAs(name: string) {
+    vi.spyOn(window, 'prompt').mockReturnValueOnce(name);
+    button('Save As...').click();
+    await app.updateComplete;
+  }
+
+  it('lists the default presets', () => {
+    expect(presetNames()).toEqual(['Default A', 'Default B']);
+    expect(button('Delete Preset').disabled).toBe(true);
+  });
+
+  it('saves the current prompts as a new user preset', async () => {
+    await saveAs('  Mine  ');
+
+    expect(presetNames()).toEqual(['Default A', 'Default B', 'Mine']);
+    expect(presetSelect().value).toBe('Mine');
+    expect(button('Delete Preset').disabled).toBe(false);
+    const stored = storedPresets();
+    expect([...stored.keys()]).toEqual(['Mine']);
+    expect([...stored.get('Mine')!.prompts.values()].map((p) => p.text)).toEqual(['Drums', 'Bass']);
+    expect(stored.get('Mine')!.config).toEqual({ bpm: 90 });
+  });
+
+  it('does not overwrite a default preset', async () => {
+    const alert = vi.spyOn(window, 'alert').mockImplementation(() => {});
+
+    await saveAs('Default B');
+
+    expect(alert).toHaveBeenCalledOnce();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('asks before overwriting a user preset', async () => {
+    await saveAs('Mine');
+    await selectPreset('Default B');
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false);
+
+    await saveAs('Mine');
+    expect(confirm).toHaveBeenCalledOnce();
+    expect([...storedPresets().get('Mine')!.prompts.values()][0].text).toBe('Drums');
+
+    confirm.mockReturnValueOnce(true);
+    await saveAs('Mine');
+    expect([...storedPresets().get('Mine')!.prompts.values()][0].text).toBe('Strings');
+  });
+
+  it('loads the selected preset', async () => {
+    const sent: Array<Map<string, Prompt>> = [];
+    app.addEventListener('prompts-changed', (e) => sent.push(e.detail));
+
+    await selectPreset('Default B');
+
+    expect([...sent.at(-1)!.values()].map((p) => p.text)).toEqual(['Strings', 'Choir']);
+    const texts = [...app.shadowRoot!.querySelectorAll('prompt-controller')].map((c) => c.text);
+    expect(texts).toEqual(['Strings', 'Choir']);
+  });
+
+  it('keeps live edits out of the loaded preset', async () => {
+    const defaultA = preset(['Drums', 'Bass'], 90);
+    app.remove();
+    app = new PromptDjMidi(new Map([['Default A', defaultA]]));
+    document.body.append(app);
+    await app.updateComplete;
+
+    const controller = app.shadowRoot!.querySelector('prompt-controller')!;
+    controller.dispatchEvent(new CustomEvent('prompt-changed', {
+      detail: { ...defaultA.prompts.get('prompt-0')!, text: 'Kick', source: 'edit' },
+    }));
+    await app.updateComplete;
+
+    expect(controller.text).toBe('Kick');
+    expect(defaultA.prompts.get('prompt-0')!.text).toBe('Drums');
+  });
+
+  it('waits for the next bar to switch presets while quantizing', async () => {
+    const detector = new BeatDetector();
+    const msUntilNext = vi.spyOn(detector, 'msUntilNext').mockReturnValue(500);
+    app.beatDetector = detector;
+    await app.updateComplete;
+    const quantize = app.shadowRoot!.querySelector<HTMLSelectElement>('#quantize-select')!;
+    quantize.value = 'bar';
+    quantize.dispatchEvent(new Event('change'));
+    vi.useFakeTimers();
+    const sent: Array<Map<string, Prompt>> = [];
+    app.addEventListener('prompts-changed', (e) => sent.push(e.detail));
+
+    try {
+      await selectPreset('Default B');
+      expect(msUntilNext).toHaveBeenCalledWith('bar');
+      expect(sent).toEqual([]);
+
+      vi.advanceTimersByTime(500);
+      await app.updateComplete;
+      expect([...sent.at(-1)!.values()].map((p) => p.text)).toEqual(['Strings', 'Choir']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('deletes a user preset after confirmation', async () => {
+    await saveAs('Mine');
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false);
+
+    button('Delete Preset').click();
+    await app.updateComplete;
+    expect(presetNames()).toContain('Mine');
+
+    confirm.mockReturnValueOnce(true);
+    button('Delete Preset').click();
+    await app.updateComplete;
+    expect(presetNames()).toEqual(['Default A', 'Default B']);
+    expect(presetSelect().value).toBe('Default A');
+    expect(storedPresets().size).toBe(0);
+  });
+
+  it('saves the effects with the preset and restores them on load', async () => {
+    const sent: FxSettings[] = [];
+    app.addEventListener('fx-changed', (e) => sent.push(e.detail));
+    button('Master effects').click();
+    await app.updateComplete;
+    const panel = app.shadowRoot!.querySelector('fx-panel')!;
+    panel.dispatchEvent(new CustomEvent<FxSettings>('fx-changed', { detail: { filter: -0.5, killLow: true } }));
+
+    await saveAs('Mine');
+    expect(storedPresets().get('Mine')!.fx).toEqual({ filter: -0.5, killLow: true });
+
+    // Presets without effects leave them as they are.
+    await selectPreset('Default B');
+    expect(sent).toHaveLength(1);
+
+    panel.dispatchEvent(new CustomEvent<FxSettings>('fx-changed', { detail: {} }));
+    await selectPreset('Mine');
+    expect(sent.at(-1)).toEqual({ filter: -0.5, killLow: true });
+  });
+
+  it('keeps legacy presets it cannot migrate', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    app.remove();
+    localStorage.clear();
+    localStorage.setItem('prompt-dj-presets-v2', '{not json');
+
+    app = new PromptDjMidi(new Map([['Default A', preset(['Drums'], 90)]]));
+    document.body.append(app);
+    await app.updateComplete;
+
+    expect(presetNames()).toEqual(['Default A']);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(localStorage.getItem('prompt-dj-presets-v2')).toBe('{not json');
+  });
+
+  it('reports a share link that cannot be encoded', async () => {
+    vi.stubGlobal('CompressionStream', undefined);
+    const errors: string[] = [];
+    app.addEventListener('error', (e) => errors.push(e.detail));
+
+    try {
+      button('Copy Share Link').click();
+      await vi.waitFor(() => expect(errors).toHaveLength(1));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+    expect(errors[0]).toMatch(/^Unable to share the preset: /);
+  });
+
+  it('reports and clears a preset link it cannot read', async () => {
+    app.remove();
+    history.replaceState(null, '', '/#preset=not-a-preset');
+    const errors: string[] = [];
+
+    app = new PromptDjMidi(new Map([['Default A', preset(['Drums'], 90)]]));
+    app.addEventListener('error', (e) => errors.push(e.detail));
+    document.body.append(app);
+
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0]).toMatch(/^Invalid preset link/);
+    expect(window.location.hash).toBe('');
+  });
+
+  it('restores user presets from storage', async () => {
+    await saveAs('Mine');
+    app.remove();
+
+    app = new PromptDjMidi(new Map([['Default A', preset(['Drums'], 90)]]));
+    document.body.append(app);
+    await app.updateComplete;
+
+    expect(presetNames()).toEqual(['Default A', 'Mine']);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { decode, decodeAudioData, encode, floatTo16Bit } from '../utils/audio';
+import { FakeAudioBuffer, FakeAudioContext } from './fakes';
+
+function pcm(samples: number[]) {
+  return new Uint8Array(new Int16Array(samples).buffer);
+}
+
+async function decodeWith(data: Uint8Array, numChannels: number) {
+  const ctx = new FakeAudioContext() as unknown as BaseAudioContext;
+  return await decodeAudioData(data, ctx, 48000, numChannels) as unknown as FakeAudioBuffer;
+}
+
+describe('decodeAudioData', () => {
+  it('splits interleaved stereo samples into channels', async () => {
+    const buffer = await decodeWith(pcm([16384, -16384, 8192, -8192, 0, 32767]), 2);
+
+    expect(buffer.numberOfChannels).toBe(2);
+    expect(buffer.length).toBe(3);
+    expect([...buffer.getChannelData(0)]).toEqual([0.5, 0.25, 0]);
+    expect([...buffer.getChannelData(1)]).toEqual([-0.5, -0.25, 32767 / 32768]);
+  });
+
+  it('decodes mono samples into one channel', async () => {
+    const buffer = await decodeWith(pcm([-32768, 16384]), 1);
+
+    expect(buffer.length).toBe(2);
+    expect([...buffer.getChannelData(0)]).toEqual([-1, 0.5]);
+  });
+
+  it('computes the duration from the sample rate', async () => {
+    const buffer = await decodeWith(new Uint8Array(48000 * 2 * 2), 2);
+
+    expect(buffer.duration).toBe(1);
+  });
+});
+
+describe('floatTo16Bit', () => {
+  it('scales and clips float samples', () => {
+    expect([...floatTo16Bit(new Float32Array([0, 1, -1, 2, -2]))])
+      .toEqual([0, 32767, -32768, 32767, -32768]);
+  });
+});
+
+describe('encode and decode', () => {
+  it('round trip bytes through base64', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+
+    expect(encode(bytes)).toBe('AAF/gP8=');
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { vi } from 'vitest';
+
+import type { MusicConfig } from '../types';
+import type { MusicBackend, MusicSession, MusicSessionCallbacks, WeightedPrompt } from '../utils/MusicBackend';
+
+/** Just enough of the Web Audio API for `LiveMusicHelper` and the audio utils. */
+export class FakeAudioBuffer {
+  readonly numberOfChannels: number;
+  readonly length: number;
+  readonly sampleRate: number;
+  readonly duration: number;
+  private readonly channels: Float32Array[];
+
+  constructor(numberOfChannels: number, length: number, sampleRate: number) {
+    this.numberOfChannels = numberOfChannels;
+    this.length = length;
+    this.sampleRate = sampleRate;
+    this.duration = length / sampleRate;
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  copyToChannel(source: Float32Array, channel: number) {
+    this.channels[channel].set(source);
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+function fakeGain() {
+  return { gain: fakeParam(), connect: vi.fn(), disconnect: vi.fn() };
+}
+
+function fakeFilter() {
+  return { type: 'lowpass' as BiquadFilterType, frequency: fakeParam(), Q: fakeParam(), connect: vi.fn() };
+}
+
+function fakeCompressor() {
+  return {
+    threshold: fakeParam(),
+    ratio: fakeParam(),
+    knee: fakeParam(),
+    attack: fakeParam(),
+    release: fakeParam(),
+    connect: vi.fn(),
+  };
+}
+
+function fakeDelay() {
+  return { delayTime: fakeParam(), connect: vi.fn() };
+}
+
+function fakeParam() {
+  return {
+    value: 1,
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+    setTargetAtTime: vi.fn(),
+    cancelScheduledValues: vi.fn(),
+  };
+}
+
+export class FakeAudioContext {
+  currentTime = 0;
+  readonly sampleRate: number;
+  readonly destination = {};
+  sinkId = '';
+  /** Every buffer source created, with the time it was started at. */
+  readonly sources: Array<{
+    buffer: FakeAudioBuffer | null;
+    startedAt: number | null;
+    onended: (() => void) | null;
+    stop: () => void;
+  }> = [];
+  /** Every gain node created, in order. */
+  readonly gains: Array<ReturnType<typeof fakeGain>> = [];
+  /** Every biquad filter, compressor and delay node created, in order. */
+  readonly filters: Array<ReturnType<typeof fakeFilter>> = [];
+  readonly compressors: Array<ReturnType<typeof fakeCompressor>> = [];
+  readonly delays: Array<ReturnType<typeof fakeDelay>> = [];
+
+  constructor(options?: AudioContextOptions) {
+    this.sampleRate = options?.sampleRate ?? 48000;
+  }
+
+  createGain() {
+    const gain = fakeGain();
+    this.gains.push(gain);
+    return gain;
+  }
+
+  createBiquadFilter() {
+    const filter = fakeFilter();
+    this.filters.push(filter);
+    return filter;
+  }
+
+  createDynamicsCompressor() {
+    const compressor = fakeCompressor();
+    this.compressors.push(compressor);
+    return compressor;
+  }
+
+  createDelay() {
+    const delay = fakeDelay();
+    this.delays.push(delay);
+    return delay;
+  }
+
+  createConvolver() {
+    return { buffer: null as FakeAudioBuffer | null, connect: vi.fn() };
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    const source = {
+      buffer: null as FakeAudioBuffer | null,
+      startedAt: null as number | null,
+      onended: null as (() => void) | null,
+      connect: vi.fn(),
+      start(when = 0) {
+        source.startedAt = when;
+      },
+      stop: vi.fn(),
+    };
+    this.sources.push(source);
+    return source;
+  }
+
+  resume() {
+    return Promise.resolve();
+  }
+
+  async setSinkId(sinkId: string) {
+    this.sinkId = sinkId;
+  }
+}
+
+export class FakeMusicSession implements MusicSession {
+  prompts: WeightedPrompt[] = [];
+  config: MusicConfig = {};
+  readonly play = vi.fn();
+  readonly pause = vi.fn();
+  readonly stop = vi.fn();
+  readonly resetContext = vi.fn();
+  readonly close = vi.fn();
+
+  async setWeightedPrompts(prompts: WeightedPrompt[]) {
+    this.prompts = prompts;
+  }
+
+  async setMusicGenerationConfig(config: MusicConfig) {
+    this.config = config;
+  }
+}
+
+/** A backend handing out fake sessions, keeping the callbacks of the last one. */
+export class FakeMusicBackend implements MusicBackend {
+  readonly name = 'fake';
+  readonly sessions: FakeMusicSession[] = [];
+  callbacks: MusicSessionCallbacks | null = null;
+
+  get session() {
+    return this.sessions[this.sessions.length - 1];
+  }
+
+  async connect(callbacks: MusicSessionCallbacks) {
+    this.callbacks = callbacks;
+    const session = new FakeMusicSession();
+    this.sessions.push(session);
+    return session;
+  }
+}
+
+/** Silent 16-bit stereo PCM at 48 kHz. */
+export function silentChunk(seconds: number) {
+  return new Uint8Array(Math.round(seconds * 48000) * 2 * 2);
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import type { Prompt } from '../types';
+import { BandNormalizer, guessBand, promptBand } from '../utils/promptBands';
+
+function prompt(text: string, band?: Prompt['band']): Prompt {
+  return { promptId: 'p', text, weight: 1, cc: 0, color: '#fff', band };
+}
+
+describe('guessBand', () => {
+  it('maps keywords to bands', () => {
+    expect(guessBand('Drum and Bass')).toBe('low');
+    expect(guessBand('808 Hip Hop Beat')).toBe('low');
+    expect(guessBand('Sparkling Arpeggios')).toBe('high');
+    expect(guessBand('Shimmering hi-hats')).toBe('high');
+    expect(guessBand('Lush Strings')).toBe('mid');
+    expect(guessBand('Warm pads')).toBe('mid');
+  });
+
+  it('matches whole words only', () => {
+    expect(guessBand('Subtle ambience')).toBeNull();
+    expect(guessBand('Chillwave')).toBeNull();
+  });
+});
+
+describe('promptBand', () => {
+  it('prefers the assigned band over the guess', () => {
+    expect(promptBand(prompt('Funky bass'))).toBe('low');
+    expect(promptBand(prompt('Funky bass', 'high'))).toBe('high');
+  });
+});
+
+describe('BandNormalizer', () => {
+  it('scales each band to its recent peak', () => {
+    const normalizer = new BandNormalizer();
+    normalizer.normalize({ low: 0.8, mid: 0.4, high: 0.1 });
+    const bands = normalizer.normalize({ low: 0.4, mid: 0.4, high: 0.1 });
+    expect(bands.low).toBeCloseTo(0.4 / (0.8 * 0.995));
+    expect(bands.mid).toBe(1);
+    expect(bands.high).toBe(1);
+  });
+
+  it('does not blow near silence up to full scale', () => {
+    const bands = new BandNormalizer().normalize({ low: 0.01, mid: 0, high: 0.01 });
+    expect(bands.low).toBeCloseTo(0.2);
+    expect(bands.mid).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { throttle } from '../utils/throttle';
+
+describe('throttle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('calls through on the first call', async () => {
+    const func = vi.fn((x: number) => x * 2);
+    const throttled = throttle(func, 200);
+
+    const result = throttled(1);
+
+    expect(func).toHaveBeenCalledOnce();
+    expect(await result).toBe(2);
+  });
+
+  it('merges calls within the delay into one trailing call', async () => {
+    const func = vi.fn((x: number) => x * 2);
+    const throttled = throttle(func, 200);
+
+    throttled(1);
+    vi.advanceTimersByTime(50);
+    const second = throttled(2);
+    vi.advanceTimersByTime(50);
+    const third = throttled(3);
+    expect(func).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(99);
+    expect(func).toHaveBeenCalledOnce();
+    vi.advanceTimersByTime(1);
+    expect(func).toHaveBeenCalledTimes(2);
+    expect(func).toHaveBeenLastCalledWith(3);
+    // Both merged calls resolve with the trailing result.
+    expect(await second).toBe(6);
+    expect(await third).toBe(6);
+  });
+
+  it('keeps the delay after a trailing call', () => {
+    const func = vi.fn();
+    const throttled = throttle(func, 200);
+
+    throttled(1);
+    throttled(2);
+    vi.advanceTimersByTime(200);
+    throttled(3);
+
+    expect(func).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(200);
+    expect(func).toHaveBeenCalledTimes(3);
+    expect(func).toHaveBeenLastCalledWith(3);
+  });
+
+  it('calls through again once the delay has passed', async () => {
+    const func = vi.fn((x: number) => x * 2);
+    const throttled = throttle(func, 200);
+
+    throttled(1);
+    vi.advanceTimersByTime(200);
+
+    expect(await throttled(3)).toBe(6);
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops calls within the delay without trailing', async () => {
+    const func = vi.fn((x: number) => x * 2);
+    const throttled = throttle(func, 200, { trailing: false });
+
+    throttled(1);
+    expect(await throttled(2)).toBe(2);
+    vi.advanceTimersByTime(500);
+
+    expect(func).toHaveBeenCalledOnce();
+  });
+
+  it('waits for the delay without leading', () => {
+    const func = vi.fn();
+    const throttled = throttle(func, 200, { leading: false });
+
+    throttled(1);
+    throttled(2);
+    expect(func).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+    expect(func).toHaveBeenCalledOnce();
+    expect(func).toHaveBeenCalledWith(2);
+  });
+
+  it('propagates async results and errors', async () => {
+    const func = vi.fn(async (x: number) => {
+      if (x < 0) throw new Error('negative');
+      return x;
+    });
+    const throttled = throttle(func, 200);
+
+    expect(await throttled(1)).toBe(1);
+    const failed = throttled(-1);
+    vi.advanceTimersByTime(200);
+
+    await expect(failed).rejects.toThrow('negative');
+  });
+
+  it('flushes the pending call right away', async () => {
+    const func = vi.fn((x: number) => x);
+    const throttled = throttle(func, 200);
+
+    throttled(1);
+    const pending = throttled(2);
+
+    expect(await throttled.flush()).toBe(2);
+    expect(await pending).toBe(2);
+    expect(func).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(500);
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it('cancels the pending call', async () => {
+    const func = vi.fn((x: number) => x);
+    const throttled = throttle(func, 200);
+
+    throttled(1);
+    const pending = throttled(2);
+    throttled.cancel();
+    vi.advanceTimersByTime(500);
+
+    expect(func).toHaveBeenCalledOnce();
+    expect(await pending).toBe(1);
+  });
+});
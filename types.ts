@@ -2,18 +2,159 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import type { Scale } from '@google/genai';
+
 export interface Prompt {
   readonly promptId: string;
   text: string;
   weight: number;
   cc: number;
+  /** MIDI channel (0-15) the CC is read from. Any channel when unset. */
+  channel?: number;
+  /** Name of the MIDI input the CC is read from. Any input when unset. */
+  device?: string;
+  /** How CC values map onto the weight. Absolute when unset. */
+  ccMode?: CcMode;
+  /** Soft takeover: the CC only moves the weight once it has reached it. */
+  pickup?: boolean;
+  /** Weight at the bottom of the control's travel, 0 when unset. */
+  minWeight?: number;
+  /** Weight at the top of the control's travel, 2 when unset. */
+  maxWeight?: number;
+  /** Response from control position to weight, linear when unset. */
+  curve?: WeightCurve;
+  /** `[position, amount]` points, both 0-1, shaping the custom curve. */
+  breakpoints?: Array<[number, number]>;
+  /** Silenced without losing its weight. */
+  muted?: boolean;
+  /** While any prompt is soloed, only soloed prompts are heard. */
+  soloed?: boolean;
+  /** Kept as it is when presets load, morph or crossfade. */
+  locked?: boolean;
+  /** Spectral band the prompt's halo follows. Guessed from the text when unset. */
+  band?: PromptBand;
   color: string;
 }
 
+/** The spectral bands `AudioAnalyser` measures. */
+export type PromptBand = 'low' | 'mid' | 'high';
+
+export type WeightCurve = 'linear' | 'log' | 'exp' | 'custom';
+
+/**
+ * Absolute CCs set the weight directly. Relative encoders send increments in
+ * one of three common encodings. 14-bit pairs an MSB on the mapped CC with
+ * an LSB 32 numbers higher.
+ */
+export type CcMode =
+  | 'absolute'
+  | 'relative-twos-complement'
+  | 'relative-signed-bit'
+  | 'relative-binary-offset'
+  | '14-bit';
+
+/** Where a prompt change came from. */
+export type PromptChangeSource = 'knob' | 'midi' | 'text' | 'edit' | 'preset' | 'crossfader' | 'morph' | 'automation';
+
+/** Detail of a `prompt-changed` event from a single prompt controller. */
+export interface PromptChange extends Prompt {
+  source: PromptChangeSource;
+}
+
 export interface ControlChange {
+  /** Name of the MIDI input the message arrived on. */
+  device: string;
   channel: number;
   cc: number;
   value: number;
 }
 
-export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
\ No newline at end of file
+/** A Note On, or a Note Off with its release velocity. */
+export interface NoteMessage {
+  device: string;
+  channel: number;
+  note: number;
+  velocity: number;
+}
+
+export interface ProgramChange {
+  device: string;
+  channel: number;
+  program: number;
+}
+
+export interface PitchBend {
+  device: string;
+  channel: number;
+  /** From -1 (full down) to just under 1 (full up), 0 at rest. */
+  value: number;
+}
+
+/** Channel aftertouch. */
+export interface ChannelPressure {
+  device: string;
+  channel: number;
+  pressure: number;
+}
+
+/** `reconnecting` while a dropped session is restored, before giving up. */
+export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused' | 'reconnecting';
+
+export type RecordingState = 'idle' | 'armed' | 'recording';
+
+/**
+ * Music generation settings sent alongside the weighted prompts.
+ * Unset fields fall back to the server defaults.
+ */
+export interface MusicConfig {
+  bpm?: number;
+  density?: number;
+  brightness?: number;
+  scale?: Scale;
+  temperature?: number;
+  guidance?: number;
+  seed?: number;
+}
+
+/**
+ * Master effects on the output bus. Unset fields fall back to neutral
+ * settings, so an empty object leaves the audio untouched.
+ */
+export interface FxSettings {
+  /** EQ band gains in dB. */
+  eqLow?: number;
+  eqMid?: number;
+  eqHigh?: number;
+  /** Silences the band entirely, whatever its gain. */
+  killLow?: boolean;
+  killMid?: boolean;
+  killHigh?: boolean;
+  /** From -1 (low-pass closed) through 0 (off) to 1 (high-pass open). */
+  filter?: number;
+  /** Filter resonance, from 0 to 1. */
+  resonance?: number;
+  /** Compression amount, from 0 (off) to 1. */
+  compressor?: number;
+  /** Delay send level, from 0 to 1. */
+  delaySend?: number;
+  /** Delay time in beats, synced to the BPM. */
+  delayBeats?: number;
+  /** Delay feedback, from 0 to just under 1. */
+  delayFeedback?: number;
+  /** Reverb send level, from 0 to 1. */
+  reverbSend?: number;
+}
+
+/** Where the main mix and the cue play. Empty sink ids mean the default output. */
+export interface OutputSettings {
+  mainSinkId: string;
+  cueSinkId: string;
+}
+
+/** A named snapshot of the prompt grid and its generation settings. */
+export interface Preset {
+  prompts: Map<string, Prompt>;
+  config: MusicConfig;
+  /** Master effects, left as they are when unset. */
+  fx?: FxSettings;
+}
@@ -2,32 +2,212 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-/** Simple class for getting the current audio level. */
-export class AudioAnalyser extends EventTarget {
-  // FIX: Change AnalyserNode to `any` due to missing Web Audio API types.
-  readonly node: any;
+import { TypedEventTarget } from './TypedEventTarget';
+
+/** Upper edges of the low and mid bands, in Hz, matching the EQ crossovers. */
+const LOW_BAND_MAX_HZ = 250;
+const MID_BAND_MAX_HZ = 2500;
+
+/** Short-term loudness is measured over this window (EBU R 128). */
+const SHORT_TERM_WINDOW_MS = 3000;
+
+/**
+ * Q of the BS.1770 high-pass stage. Its linear Q is about 0.5, but a
+ * high-pass biquad takes Q in dB: 20·log10(0.5), about -6.02 dB.
+ */
+const K_WEIGHTING_HIGH_PASS_Q_DB = 20 * Math.log10(0.5);
+
+/** Per band spectrum levels, from 0 to 1. */
+export interface BandLevels {
+  low: number;
+  mid: number;
+  high: number;
+}
+
+export interface AudioAnalysis {
+  bands: BandLevels;
+  /** RMS and peak of the latest window, in dBFS. */
+  rmsDb: number;
+  peakDb: number;
+  /** K-weighted loudness over the last 3 seconds, in LUFS. */
+  shortTermLufs: number;
+}
+
+export interface AudioAnalyserEventMap {
+  /** Level from 0 to 1, once per animation frame. */
+  'audio-level-changed': number;
+  /** Band levels and loudness, once per animation frame. */
+  'audio-analysis': AudioAnalysis;
+}
+
+/** Averages byte frequency data in each band. `binHz` is the width of a bin. */
+export function bandLevels(freqData: Uint8Array, binHz: number): BandLevels {
+  const sums = { low: 0, mid: 0, high: 0 };
+  const counts = { low: 0, mid: 0, high: 0 };
+  for (let i = 1; i < freqData.length; i++) {
+    const hz = i * binHz;
+    const band = hz < LOW_BAND_MAX_HZ ? 'low' : hz < MID_BAND_MAX_HZ ? 'mid' : 'high';
+    sums[band] += freqData[i];
+    counts[band]++;
+  }
+  const level = (band: keyof BandLevels) => counts[band] ? sums[band] / counts[band] / 0xff : 0;
+  return { low: level('low'), mid: level('mid'), high: level('high') };
+}
+
+/** Mean square and peak of a block of samples. */
+export function blockLevels(samples: Float32Array) {
+  let sumSquares = 0;
+  let peak = 0;
+  for (const sample of samples) {
+    sumSquares += sample * sample;
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  return { meanSquare: samples.length ? sumSquares / samples.length : 0, peak };
+}
+
+/** Amplitude in dBFS, -Infinity for silence. */
+export function toDb(amplitude: number) {
+  return 20 * Math.log10(amplitude);
+}
+
+/**
+ * Averages the power of K-weighted blocks over a sliding window, as BS.1770
+ * does for loudness. A block's power is the sum of its channels' mean
+ * squares. Blocks are weighted equally, whatever their length, so this is an
+ * estimate.
+ */
+export class ShortTermLoudness {
+  private blocks: Array<{ time: number; meanSquare: number }> = [];
+  private readonly windowMs: number;
+
+  constructor(windowMs = SHORT_TERM_WINDOW_MS) {
+    this.windowMs = windowMs;
+  }
+
+  /** Adds a block's power, the sum of its channels' mean squares. */
+  add(meanSquare: number, time: number) {
+    this.blocks.push({ time, meanSquare });
+    while (this.blocks[0].time <= time - this.windowMs) this.blocks.shift();
+  }
+
+  get lufs() {
+    if (this.blocks.length === 0) return -Infinity;
+    const mean = this.blocks.reduce((sum, b) => sum + b.meanSquare, 0) / this.blocks.length;
+    return -0.691 + 10 * Math.log10(mean);
+  }
+
+  reset() {
+    this.blocks = [];
+  }
+}
+
+/**
+ * Analyses the audio connected to `node`: the overall level, band levels,
+ * RMS, peak and short-term loudness, plus the raw spectrum and waveform for
+ * visualizations. Stereo is analysed downmixed to mono, except for loudness,
+ * which sums the power of both channels.
+ */
+export class AudioAnalyser extends TypedEventTarget<AudioAnalyserEventMap> {
+  /** Connect audio to analyse here. */
+  readonly node: AudioNode;
+  private readonly analyser: AnalyserNode;
+  /** See each channel through the K-weighting filter, for loudness. */
+  private readonly loudnessAnalysers: AnalyserNode[];
   private readonly freqData: Uint8Array;
+  private readonly timeData: Float32Array;
+  private readonly weightedData: Float32Array;
+  private readonly loudness = new ShortTermLoudness();
   private rafId: number | null = null;
-  // FIX: Change AudioContext to `any` due to missing Web Audio API types.
-  constructor(context: any) {
+
+  constructor(context: BaseAudioContext) {
     super();
-    this.node = context.createAnalyser();
-    this.node.smoothingTimeConstant = 0;
-    this.freqData = new Uint8Array(this.node.frequencyBinCount);
+    const input = context.createGain();
+    this.node = input;
+    this.analyser = context.createAnalyser();
+    this.analyser.smoothingTimeConstant = 0;
+    input.connect(this.analyser);
+
+    // The two stages of the BS.1770 K-weighting filter: a head-related
+    // shelf boosting the highs and a high-pass removing the lowest lows.
+    const shelf = context.createBiquadFilter();
+    shelf.type = 'highshelf';
+    shelf.frequency.value = 1500;
+    shelf.gain.value = 4;
+    const highPass = context.createBiquadFilter();
+    highPass.type = 'highpass';
+    highPass.frequency.value = 38;
+    highPass.Q.value = K_WEIGHTING_HIGH_PASS_Q_DB;
+    input.connect(shelf);
+    shelf.connect(highPass);
+    // An analyser downmixes to mono, while loudness sums the power of each
+    // channel, so each channel gets its own.
+    const splitter = context.createChannelSplitter(2);
+    highPass.connect(splitter);
+    this.loudnessAnalysers = [0, 1].map((channel) => {
+      const analyser = context.createAnalyser();
+      splitter.connect(analyser, channel);
+      return analyser;
+    });
+
+    this.freqData = new Uint8Array(this.analyser.frequencyBinCount);
+    this.timeData = new Float32Array(this.analyser.fftSize);
+    this.weightedData = new Float32Array(this.loudnessAnalysers[0].fftSize);
     this.loop = this.loop.bind(this);
   }
+
+  /** Byte frequency data, as of the last frame. */
+  get spectrum(): Uint8Array {
+    return this.freqData;
+  }
+
+  /** Width of each `spectrum` bin, in Hz. */
+  get binHz() {
+    return this.analyser.context.sampleRate / this.analyser.fftSize;
+  }
+
+  /** Samples from -1 to 1, as of the last frame. */
+  get waveform(): Float32Array {
+    return this.timeData;
+  }
+
   getCurrentLevel() {
-    this.node.getByteFrequencyData(this.freqData);
+    this.analyser.getByteFrequencyData(this.freqData);
     const avg = this.freqData.reduce((a, b) => a + b, 0) / this.freqData.length;
     return avg / 0xff;
   }
+
+  /** Analyses the latest window. Call `getCurrentLevel` first for a fresh spectrum. */
+  private analyse(): AudioAnalysis {
+    this.analyser.getFloatTimeDomainData(this.timeData);
+    const { meanSquare, peak } = blockLevels(this.timeData);
+    let power = 0;
+    for (const analyser of this.loudnessAnalysers) {
+      analyser.getFloatTimeDomainData(this.weightedData);
+      power += blockLevels(this.weightedData).meanSquare;
+    }
+    this.loudness.add(power, performance.now());
+    return {
+      bands: bandLevels(this.freqData, this.binHz),
+      rmsDb: toDb(Math.sqrt(meanSquare)),
+      peakDb: toDb(peak),
+      shortTermLufs: this.loudness.lufs,
+    };
+  }
+
   loop() {
     this.rafId = requestAnimationFrame(this.loop);
     const level = this.getCurrentLevel();
-    this.dispatchEvent(new CustomEvent('audio-level-changed', { detail: level }));
+    this.emit('audio-level-changed', level);
+    this.emit('audio-analysis', this.analyse());
+  }
+
+  start() {
+    if (this.rafId === null) this.loop();
   }
-  start = this.loop;
+
   stop() {
-    if (this.rafId) cancelAnimationFrame(this.rafId);
+    if (this.rafId !== null) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+    this.loudness.reset();
   }
 }
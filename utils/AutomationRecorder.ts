@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, PromptChangeSource } from '../types';
+import { TypedEventTarget } from './TypedEventTarget';
+
+/**
+ * Prompts that changed at a point in a lane, in seconds of playback from its
+ * start. The first event of a lane holds every prompt.
+ */
+export interface AutomationEvent {
+  time: number;
+  source: PromptChangeSource;
+  prompts: Prompt[];
+}
+
+export interface AutomationLane {
+  id: string;
+  name: string;
+  createdAt: number;
+  duration: number;
+  events: AutomationEvent[];
+}
+
+export type AutomationState = 'idle' | 'recording' | 'replaying';
+
+const STORAGE_KEY = 'prompt-dj-automation-v1';
+
+/** How often replay checks for due events. */
+const REPLAY_INTERVAL_MS = 20;
+
+/** Measures time that only advances while the music is playing. */
+class PlaybackClock {
+  private elapsed = 0;
+  private runningSince: number | null = null;
+
+  now() {
+    const running = this.runningSince === null ? 0 : performance.now() - this.runningSince;
+    return (this.elapsed + running) / 1000;
+  }
+
+  setRunning(running: boolean) {
+    if (running && this.runningSince === null) {
+      this.runningSince = performance.now();
+    } else if (!running && this.runningSince !== null) {
+      this.elapsed += performance.now() - this.runningSince;
+      this.runningSince = null;
+    }
+  }
+
+  reset() {
+    this.elapsed = 0;
+    if (this.runningSince !== null) this.runningSince = performance.now();
+  }
+}
+
+export interface AutomationRecorderEventMap {
+  /** Prompts a replayed lane changes at this point. */
+  'automation-prompts': Prompt[];
+  'automation-state-changed': AutomationState;
+  'lanes-changed': void;
+  'error': string;
+}
+
+/**
+ * Records prompt changes into automation lanes and replays them in time with
+ * playback. Only changed prompts are stored per event to keep lanes small
+ * enough for localStorage.
+ */
+export class AutomationRecorder extends TypedEventTarget<AutomationRecorderEventMap> {
+  private readonly clock = new PlaybackClock();
+  private state: AutomationState = 'idle';
+  private lanes: AutomationLane[] = [];
+
+  private events: AutomationEvent[] = [];
+  private lastPrompts = new Map<string, Prompt>();
+
+  private replayLane: AutomationLane | null = null;
+  private replayIndex = 0;
+  private replayTimer: number | null = null;
+
+  constructor() {
+    super();
+    this.lanes = this.readLanes();
+  }
+
+  get automationState() {
+    return this.state;
+  }
+
+  get replayingLaneId() {
+    return this.replayLane?.id ?? null;
+  }
+
+  getLanes(): readonly AutomationLane[] {
+    return this.lanes;
+  }
+
+  /** Automation time only runs while the music is playing. */
+  setPlaying(playing: boolean) {
+    this.clock.setRunning(playing);
+  }
+
+  record(prompts: Map<string, Prompt>) {
+    this.stop();
+    this.events = [];
+    this.lastPrompts = new Map();
+    this.clock.reset();
+    this.setState('recording');
+    this.capture(prompts, 'preset');
+  }
+
+  /** Logs the prompts that differ from the last captured state. */
+  capture(prompts: Map<string, Prompt>, source: PromptChangeSource) {
+    if (this.state !== 'recording') return;
+    const changed: Prompt[] = [];
+    for (const prompt of prompts.values()) {
+      const last = this.lastPrompts.get(prompt.promptId);
+      if (!last || last.weight !== prompt.weight || last.text !== prompt.text) {
+        changed.push({ ...prompt });
+      }
+    }
+    this.lastPrompts = new Map([...prompts].map(([id, p]) => [id, { ...p }]));
+    if (changed.length === 0) return;
+    this.events.push({ time: this.clock.now(), source, prompts: changed });
+  }
+
+  replay(laneId: string) {
+    const lane = this.lanes.find((l) => l.id === laneId);
+    if (!lane) return;
+    this.stop();
+    this.replayLane = lane;
+    this.replayIndex = 0;
+    this.clock.reset();
+    this.setState('replaying');
+    this.replayTimer = window.setInterval(() => this.replayTick(), REPLAY_INTERVAL_MS);
+    this.replayTick();
+  }
+
+  stop() {
+    if (this.state === 'recording' && this.events.length > 0) {
+      const createdAt = Date.now();
+      this.lanes = [...this.lanes, {
+        id: `lane-${createdAt}`,
+        name: `Lane ${this.lanes.length + 1}`,
+        createdAt,
+        duration: this.clock.now(),
+        events: this.events,
+      }];
+      this.events = [];
+      this.saveLanes();
+    }
+    if (this.replayTimer !== null) {
+      clearInterval(this.replayTimer);
+      this.replayTimer = null;
+    }
+    this.replayLane = null;
+    this.setState('idle');
+  }
+
+  renameLane(laneId: string, name: string) {
+    this.lanes = this.lanes.map((l) => l.id === laneId ? { ...l, name } : l);
+    this.saveLanes();
+  }
+
+  deleteLane(laneId: string) {
+    if (this.replayLane?.id === laneId) this.stop();
+    this.lanes = this.lanes.filter((l) => l.id !== laneId);
+    this.saveLanes();
+  }
+
+  private replayTick() {
+    const lane = this.replayLane;
+    if (!lane) return;
+    const now = this.clock.now();
+    while (this.replayIndex < lane.events.length && lane.events[this.replayIndex].time <= now) {
+      const event = lane.events[this.replayIndex++];
+      this.emit('automation-prompts', event.prompts.map((p) => ({ ...p })));
+    }
+    if (this.replayIndex >= lane.events.length && now >= lane.duration) {
+      this.stop();
+    }
+  }
+
+  private setState(state: AutomationState) {
+    this.state = state;
+    this.emit('automation-state-changed', state);
+  }
+
+  private readLanes(): AutomationLane[] {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    try {
+      return JSON.parse(stored);
+    } catch (e) {
+      console.error('Unable to parse automation lanes', e);
+      return [];
+    }
+  }
+
+  private saveLanes() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.lanes));
+    } catch (e) {
+      this.emit('error', `Unable to save automation: ${(e as Error).message}`);
+    }
+    this.emit('lanes-changed');
+  }
+}
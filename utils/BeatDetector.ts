@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioAnalyser } from './AudioAnalyser';
+import { TypedEventTarget } from './TypedEventTarget';
+
+export const BEATS_PER_BAR = 4;
+
+/** Onsets stand out this many standard deviations from the recent flux. */
+const ONSET_THRESHOLD = 1.5;
+/** Flux below this is never an onset, so noise in silence isn't. */
+const MIN_ONSET_FLUX = 1;
+/** Window of the flux statistics onsets are compared to. */
+const FLUX_HISTORY_MS = 1000;
+const MIN_ONSET_INTERVAL_MS = 100;
+
+/** Tempo is estimated from the intervals between onsets this recent. */
+const ONSET_HISTORY_MS = 8000;
+const MAX_INTERVAL_MS = 2000;
+const MIN_ONSETS_FOR_TEMPO = 4;
+/** Tempos are folded by octaves into this range, [min, max). */
+const FOLD_MIN_BPM = 80;
+const FOLD_MAX_BPM = 160;
+
+/** Share of the timing error of an onset near a beat that moves the grid. */
+const PHASE_CORRECTION = 0.2;
+/** Onsets further than this share of a beat from the grid don't move it. */
+const PHASE_CAPTURE = 0.25;
+
+export type QuantizeUnit = 'beat' | 'bar';
+
+export interface Beat {
+  /** Position in the bar, from 0 (the downbeat) to `BEATS_PER_BAR - 1`. */
+  beat: number;
+  bpm: number;
+}
+
+export interface BeatDetectorEventMap {
+  /** A percussive onset, at this time in ms. */
+  'onset': number;
+  /** The beat grid passed a beat. */
+  'beat': Beat;
+  /** The tempo in use changed, null until one is known. */
+  'tempo-changed': number | null;
+}
+
+/** Folds a tempo by octaves into the range tempos are reported in. */
+export function foldBpm(bpm: number) {
+  while (bpm < FOLD_MIN_BPM) bpm *= 2;
+  while (bpm >= FOLD_MAX_BPM) bpm /= 2;
+  return bpm;
+}
+
+/**
+ * Estimates a tempo from onset times in ms: every interval between two
+ * onsets votes for the tempo it would be one beat of, and the most voted
+ * tempo wins. Returns null with too few onsets.
+ */
+export function estimateTempo(onsets: number[]): number | null {
+  if (onsets.length < MIN_ONSETS_FOR_TEMPO) return null;
+  const votes = new Map<number, number[]>();
+  for (let i = 0; i < onsets.length; i++) {
+    for (let j = i + 1; j < onsets.length; j++) {
+      const interval = onsets[j] - onsets[i];
+      if (interval > MAX_INTERVAL_MS) break;
+      const bpm = foldBpm(60000 / interval);
+      const bin = Math.round(bpm);
+      votes.set(bin, [...(votes.get(bin) ?? []), bpm]);
+    }
+  }
+  let best: number[] = [];
+  let bestScore = 0;
+  for (const bin of votes.keys()) {
+    // Neighbouring bins count too, so a tempo between two bins isn't split.
+    const near = [bin - 1, bin, bin + 1].flatMap((b) => votes.get(b) ?? []);
+    if (near.length > bestScore) {
+      best = near;
+      bestScore = near.length;
+    }
+  }
+  if (best.length === 0) return null;
+  return best.reduce((sum, bpm) => sum + bpm, 0) / best.length;
+}
+
+/**
+ * Detects onsets from the spectral flux of an analyser and tracks the beat:
+ * the tempo, estimated from the onsets or set to a reference BPM, and a beat
+ * grid kept in phase with the onsets. Bars start from the first beat found,
+ * there is no telling where the music's downbeat is.
+ */
+export class BeatDetector extends TypedEventTarget<BeatDetectorEventMap> {
+  private previousSpectrum: Uint8Array | null = null;
+  private fluxHistory: Array<{ time: number; flux: number }> = [];
+  private onsets: number[] = [];
+  private estimatedBpm: number | null = null;
+  private referenceBpm: number | null = null;
+  private reportedBpm: number | null = null;
+
+  /** When the next beat is due, null until the grid is found. */
+  private nextBeatTime: number | null = null;
+  /** Beats passed since the grid was found. */
+  private beatCount = 0;
+
+  constructor(analyser?: AudioAnalyser) {
+    super();
+    analyser?.addEventListener('audio-analysis', () => {
+      this.process(analyser.spectrum, performance.now());
+    });
+  }
+
+  /** The tempo in use: the reference BPM if set, the estimate otherwise. */
+  get bpm(): number | null {
+    return this.referenceBpm ?? this.estimatedBpm;
+  }
+
+  /** Position in the bar of the last beat, null until the grid is found. */
+  get beatInBar(): number | null {
+    if (this.nextBeatTime === null || this.beatCount === 0) return null;
+    return (this.beatCount - 1) % BEATS_PER_BAR;
+  }
+
+  /** Aligns the grid to a known tempo, or goes back to estimating it with null. */
+  setReferenceBpm(bpm: number | null) {
+    this.referenceBpm = bpm;
+    this.reportTempo();
+  }
+
+  /** Forgets the grid and onsets, when the music stops. */
+  reset() {
+    this.previousSpectrum = null;
+    this.fluxHistory = [];
+    this.onsets = [];
+    this.estimatedBpm = null;
+    this.nextBeatTime = null;
+    this.beatCount = 0;
+    this.reportTempo();
+  }
+
+  /** How long until the next beat or bar starts, in ms, or null without a grid. */
+  msUntilNext(unit: QuantizeUnit, time = performance.now()): number | null {
+    const bpm = this.bpm;
+    if (this.nextBeatTime === null || bpm === null) return null;
+    const period = 60000 / bpm;
+    const beats = unit === 'bar' ? (BEATS_PER_BAR - (this.beatCount % BEATS_PER_BAR)) % BEATS_PER_BAR : 0;
+    return Math.max(0, this.nextBeatTime + beats * period - time);
+  }
+
+  /** Feeds the byte frequency data of one analysis frame, taken at `time` ms. */
+  process(spectrum: Uint8Array, time: number) {
+    const flux = this.spectralFlux(spectrum);
+    if (this.isOnset(flux, time)) {
+      this.onsets.push(time);
+      while (this.onsets[0] < time - ONSET_HISTORY_MS) this.onsets.shift();
+      this.estimatedBpm = estimateTempo(this.onsets);
+      this.reportTempo();
+      this.alignGrid(time);
+      this.emit('onset', time);
+    }
+    this.fluxHistory.push({ time, flux });
+    while (this.fluxHistory[0].time < time - FLUX_HISTORY_MS) this.fluxHistory.shift();
+    this.advanceGrid(time);
+  }
+
+  /** How much the spectrum rose since the last frame, per bin. */
+  private spectralFlux(spectrum: Uint8Array) {
+    const previous = this.previousSpectrum;
+    this.previousSpectrum = Uint8Array.from(spectrum);
+    if (!previous || previous.length !== spectrum.length) return 0;
+    let rise = 0;
+    for (let i = 0; i < spectrum.length; i++) {
+      rise += Math.max(0, spectrum[i] - previous[i]);
+    }
+    return rise / spectrum.length;
+  }
+
+  private isOnset(flux: number, time: number) {
+    if (flux < MIN_ONSET_FLUX) return false;
+    const lastOnset = this.onsets[this.onsets.length - 1];
+    if (lastOnset !== undefined && time - lastOnset < MIN_ONSET_INTERVAL_MS) return false;
+    const n = this.fluxHistory.length;
+    if (n === 0) return true;
+    const mean = this.fluxHistory.reduce((sum, f) => sum + f.flux, 0) / n;
+    const variance = this.fluxHistory.reduce((sum, f) => sum + (f.flux - mean) ** 2, 0) / n;
+    return flux > mean + ONSET_THRESHOLD * Math.sqrt(variance);
+  }
+
+  /** Starts the grid on an onset, or nudges it towards one near a beat. */
+  private alignGrid(onset: number) {
+    const bpm = this.bpm;
+    if (bpm === null) return;
+    if (this.nextBeatTime === null) {
+      this.nextBeatTime = onset;
+      return;
+    }
+    const period = 60000 / bpm;
+    const previousBeat = this.nextBeatTime - period;
+    const nearest = onset - previousBeat < this.nextBeatTime - onset ? previousBeat : this.nextBeatTime;
+    const error = onset - nearest;
+    if (Math.abs(error) < period * PHASE_CAPTURE) {
+      this.nextBeatTime += error * PHASE_CORRECTION;
+    }
+  }
+
+  private advanceGrid(time: number) {
+    const bpm = this.bpm;
+    if (this.nextBeatTime === null || bpm === null) return;
+    const period = 60000 / bpm;
+    // After a long gap, wait for the next onset rather than catching up.
+    if (time - this.nextBeatTime > period * BEATS_PER_BAR) {
+      this.nextBeatTime = null;
+      this.beatCount = 0;
+      return;
+    }
+    while (this.nextBeatTime <= time) {
+      this.emit('beat', { beat: this.beatCount % BEATS_PER_BAR, bpm });
+      this.beatCount++;
+      this.nextBeatTime += period;
+    }
+  }
+
+  private reportTempo() {
+    const bpm = this.bpm;
+    const rounded = bpm === null ? null : Math.round(bpm * 10) / 10;
+    if (rounded === this.reportedBpm) return;
+    this.reportedBpm = rounded;
+    this.emit('tempo-changed', rounded);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { setContextSink } from './audioOutputs';
+import { TypedEventTarget } from './TypedEventTarget';
+
+export interface CueOutputEventMap {
+  /** The id of what is cued, null once it stops. */
+  'cue-changed': string | null;
+}
+
+/**
+ * A second audio route, usually headphones, to pre-listen to a recorded
+ * take while the main mix plays on. It has its own context so it can play
+ * to another output device.
+ */
+export class CueOutput extends TypedEventTarget<CueOutputEventMap> {
+  private context: AudioContext | null = null;
+  private gain: GainNode | null = null;
+  private source: AudioBufferSourceNode | null = null;
+  private cueId: string | null = null;
+  private volume = 1;
+
+  /** The id of what is playing, null when nothing is. */
+  get cued() {
+    return this.cueId;
+  }
+
+  /** The context is only created on first use, after a user gesture. */
+  private getContext() {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.gain = this.context.createGain();
+      this.gain.gain.value = this.volume;
+      this.gain.connect(this.context.destination);
+    }
+    return this.context;
+  }
+
+  /** Plays audio channels on the cue route, replacing anything cued before. */
+  play(id: string, channels: Float32Array[], sampleRate: number) {
+    this.stopSource();
+    const context = this.getContext();
+    const buffer = context.createBuffer(channels.length, channels[0]?.length ?? 0, sampleRate);
+    channels.forEach((data, channel) => buffer.copyToChannel(data, channel));
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.gain!);
+    source.onended = () => {
+      if (this.source !== source) return;
+      this.source = null;
+      this.setCued(null);
+    };
+    context.resume();
+    source.start();
+    this.source = source;
+    this.setCued(id);
+  }
+
+  stop() {
+    this.stopSource();
+    this.setCued(null);
+  }
+
+  /** Sets the cue volume, from 0 to 1. */
+  setVolume(volume: number) {
+    this.volume = Math.max(0, Math.min(1, volume));
+    if (this.context && this.gain) {
+      this.gain.gain.setTargetAtTime(this.volume, this.context.currentTime, 0.02);
+    }
+  }
+
+  /** Plays the cue to an output device, the default one for an empty id. */
+  async setSinkId(sinkId: string) {
+    await setContextSink(this.getContext(), sinkId);
+  }
+
+  private stopSource() {
+    const source = this.source;
+    this.source = null;
+    source?.stop();
+  }
+
+  private setCued(id: string | null) {
+    if (id === this.cueId) return;
+    this.cueId = id;
+    this.emit('cue-changed', id);
+  }
+}
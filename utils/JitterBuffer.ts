@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Latency bounds, in seconds. */
+const MIN_TARGET_SECONDS = 0.5;
+const MAX_TARGET_SECONDS = 6;
+/** Start out as cautious as the old fixed buffer, until jitter is measured. */
+const INITIAL_TARGET_SECONDS = 2;
+
+/** Latency kept per second of measured jitter. */
+const JITTER_MULTIPLIER = 4;
+/** How quickly the jitter estimate follows new arrivals (RFC 3550 uses 1/16). */
+const JITTER_SMOOTHING = 1 / 16;
+/** Extra latency added by each underrun. */
+const UNDERRUN_MARGIN_SECONDS = 0.5;
+/** Share of the extra latency kept per chunk that arrives in time. */
+const MARGIN_DECAY = 0.9;
+
+export interface BufferHealth {
+  /** Seconds of audio scheduled ahead of the playhead. */
+  queuedSeconds: number;
+  /** Latency buffered up to when playback starts or recovers. */
+  targetSeconds: number;
+  /** Smoothed deviation of chunk arrivals from their durations. */
+  jitterSeconds: number;
+  underruns: number;
+}
+
+/**
+ * Measures how irregularly audio chunks arrive and derives how much audio to
+ * buffer: more when arrivals are jittery or playback ran dry, shrinking back
+ * while chunks keep arriving in time.
+ */
+export class JitterBuffer {
+  private jitter = 0;
+  /** Latency on top of the jitter, raised by underruns and decaying after. */
+  private margin = INITIAL_TARGET_SECONDS - MIN_TARGET_SECONDS;
+  private lastArrival: number | null = null;
+  private lastDuration = 0;
+  private underruns = 0;
+
+  get targetSeconds() {
+    const target = MIN_TARGET_SECONDS + JITTER_MULTIPLIER * this.jitter + this.margin;
+    return Math.min(MAX_TARGET_SECONDS, target);
+  }
+
+  /** Records a chunk of `duration` seconds arriving at `time`, both in seconds. */
+  recordArrival(time: number, duration: number) {
+    if (this.lastArrival !== null) {
+      const deviation = Math.abs(time - this.lastArrival - this.lastDuration);
+      this.jitter += (deviation - this.jitter) * JITTER_SMOOTHING;
+    }
+    this.lastArrival = time;
+    this.lastDuration = duration;
+  }
+
+  recordInTime() {
+    this.margin *= MARGIN_DECAY;
+  }
+
+  recordUnderrun() {
+    this.underruns++;
+    this.margin = Math.min(MAX_TARGET_SECONDS, this.margin + UNDERRUN_MARGIN_SECONDS);
+  }
+
+  /** Forgets the last arrival, so a pause or reconnect doesn't count as jitter. */
+  resetArrivals() {
+    this.lastArrival = null;
+  }
+
+  getHealth(queuedSeconds: number): BufferHealth {
+    return {
+      queuedSeconds,
+      targetSeconds: this.targetSeconds,
+      jitterSeconds: this.jitter,
+      underruns: this.underruns,
+    };
+  }
+}
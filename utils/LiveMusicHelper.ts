@@ -2,115 +2,266 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { PlaybackState, Prompt } from '../types';
-import type { AudioChunk, GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
-import { decode, decodeAudioData } from './audio';
+import type { MusicConfig, PlaybackState, Prompt } from '../types';
+import type { LiveMusicFilteredPrompt } from '@google/genai';
+import { decodeAudioData } from './audio';
+import { setContextSink } from './audioOutputs';
+import { JitterBuffer } from './JitterBuffer';
+import { DEFAULT_BPM, MasterFxChain } from './MasterFxChain';
+import type { BufferHealth } from './JitterBuffer';
+import { MUSIC_CHANNELS, MUSIC_SAMPLE_RATE, PROMPT_UPDATE_INTERVAL_MS } from './MusicBackend';
+import type { MusicBackend, MusicSession } from './MusicBackend';
 import { throttle } from './throttle';
+import { TypedEventTarget } from './TypedEventTarget';
 
-export class LiveMusicHelper extends EventTarget {
+/** Delay before the first reconnection attempt, doubled for each retry. */
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+export const MAX_RECONNECT_ATTEMPTS = 5;
 
-  private ai: GoogleGenAI;
-  private model: string;
+/** BPM and scale changes restart the music, so they wait to settle this long. */
+export const CONTEXT_RESET_DELAY_MS = 1000;
 
-  private session: LiveMusicSession | null = null;
-  private sessionPromise: Promise<LiveMusicSession> | null = null;
+/** The limiter after the master volume holds peaks under this level, in dBFS. */
+export const LIMITER_CEILING_DB = -1;
+
+/** Length of the fades between chunks when playback runs dry and recovers. */
+export const CROSSFADE_SECONDS = 0.05;
+
+export interface LiveMusicHelperEventMap {
+  'playback-state-changed': PlaybackState;
+  /** A prompt the server refused, which is left out from then on. */
+  'filtered-prompt': LiveMusicFilteredPrompt;
+  /** Each decoded chunk, as it is scheduled. */
+  'audio-chunk': AudioBuffer;
+  'error': string;
+  'warning': string;
+}
+
+export class LiveMusicHelper extends TypedEventTarget<LiveMusicHelperEventMap> {
+
+  private backend: MusicBackend;
+
+  private session: MusicSession | null = null;
+  private sessionPromise: Promise<MusicSession> | null = null;
 
   private connectionError = true;
+  /** Incremented per connection, so callbacks of a replaced session are ignored. */
+  private connectionId = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: number | null = null;
 
   private filteredPrompts = new Set<string>();
   private nextStartTime = 0;
-  private bufferTime = 2;
+  private readonly jitterBuffer = new JitterBuffer();
+  /** Gain of the last scheduled chunk, which fades out unless the next one is in time. */
+  private lastChunkGain: GainNode | null = null;
 
-  // FIX: Change AudioContext to `any` due to missing Web Audio API types.
-  public readonly audioContext: any;
-  // FIX: Change AudioNode to `any` due to missing Web Audio API types.
-  public extraDestination: any | null = null;
+  public readonly audioContext: AudioContext;
+  public extraDestination: AudioNode | null = null;
+  /** Effects between the music and the master volume. */
+  public readonly fx: MasterFxChain;
 
-  // FIX: Change GainNode to `any` due to missing Web Audio API types.
-  private outputNode: any;
+  private outputNode: GainNode;
+  private readonly masterNode: GainNode;
+  private readonly limiter: DynamicsCompressorNode;
   private playbackState: PlaybackState = 'stopped';
 
   private prompts: Map<string, Prompt>;
+  private config: MusicConfig = {};
+  /** The config the session's context was started or last reset with. */
+  private contextConfig: MusicConfig | null = null;
+  private contextResetTimer: number | null = null;
 
-  constructor(ai: GoogleGenAI, model: string) {
+  constructor(backend: MusicBackend) {
     super();
-    this.ai = ai;
-    this.model = model;
+    this.backend = backend;
     this.prompts = new Map();
-    // FIX: Use `globalThis` to access AudioContext due to missing DOM types.
-    this.audioContext = new (globalThis as any).AudioContext({ sampleRate: 48000 });
+    this.audioContext = new AudioContext({ sampleRate: MUSIC_SAMPLE_RATE });
     this.outputNode = this.audioContext.createGain();
+    this.masterNode = this.audioContext.createGain();
+    // As close to a brick wall as a compressor gets, so a loud mix or a
+    // boosted EQ doesn't clip.
+    this.limiter = this.audioContext.createDynamicsCompressor();
+    this.limiter.threshold.value = LIMITER_CEILING_DB;
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.1;
+    this.masterNode.connect(this.limiter);
+    this.limiter.connect(this.audioContext.destination);
+    this.fx = new MasterFxChain(this.audioContext);
+    this.fx.output.connect(this.masterNode);
   }
 
-  private getSession(): Promise<LiveMusicSession> {
+  private getSession(): Promise<MusicSession> {
     if (!this.sessionPromise) this.sessionPromise = this.connect();
     return this.sessionPromise;
   }
 
-  private async connect(): Promise<LiveMusicSession> {
-    this.sessionPromise = this.ai.live.music.connect({
-      model: this.model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text!])
-            this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
-          }
-          if (e.serverContent?.audioChunks) {
-            await this.processAudioChunks(e.serverContent.audioChunks);
-          }
-        },
-        onerror: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
-        onclose: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
+  private async connect(): Promise<MusicSession> {
+    const id = ++this.connectionId;
+    this.sessionPromise = this.backend.connect({
+      onSetupComplete: () => {
+        if (id === this.connectionId) this.connectionError = false;
+      },
+      onFilteredPrompt: (filteredPrompt) => {
+        if (id !== this.connectionId) return;
+        this.filteredPrompts = new Set([...this.filteredPrompts, filteredPrompt.text!]);
+        this.emit('filtered-prompt', filteredPrompt);
+      },
+      onAudioChunk: async (pcm) => {
+        if (id === this.connectionId) await this.processAudioChunk(pcm);
+      },
+      onError: () => {
+        if (id === this.connectionId) this.handleConnectionLost();
+      },
+      onClose: () => {
+        if (id === this.connectionId) this.handleConnectionLost();
       },
     });
     return this.sessionPromise;
   }
 
+  /**
+   * Reconnects a dropped session that was playing, with exponential backoff.
+   * A paused session is just dropped, `play()` connects again.
+   */
+  private handleConnectionLost() {
+    this.connectionError = true;
+    this.session = null;
+    this.sessionPromise = null;
+    this.jitterBuffer.resetArrivals();
+    this.cancelContextReset();
+    if (this.playbackState === 'stopped' || this.playbackState === 'paused') return;
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer !== null) return;
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.stop();
+      this.emit('error', `Connection lost, gave up after ${MAX_RECONNECT_ATTEMPTS} attempts. Please restart audio.`);
+      return;
+    }
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    this.setPlaybackState('reconnecting');
+    this.emit('warning', `Connection lost, reconnecting (attempt ${this.reconnectAttempts} of ${MAX_RECONNECT_ATTEMPTS})...`);
+    this.reconnectTimer = window.setTimeout(() => this.reconnect(), delay);
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.reconnectAttempts = 0;
+  }
+
+  /**
+   * Opens a new session with the current prompts and config. Audio already
+   * scheduled keeps playing meanwhile, so a quick reconnect is seamless.
+   */
+  private async reconnect() {
+    this.reconnectTimer = null;
+    try {
+      const sessionPromise = this.getSession();
+      const session = await sessionPromise;
+      // Stopped while connecting, nothing will use the session.
+      if (sessionPromise !== this.sessionPromise) {
+        session.close();
+        return;
+      }
+      // Paused while connecting, `play()` picks the session up.
+      if (this.playbackState !== 'reconnecting') return;
+      this.session = session;
+      await session.setWeightedPrompts(this.activePrompts);
+      await session.setMusicGenerationConfig(this.config);
+      this.contextConfig = { ...this.config };
+      session.play();
+    } catch {
+      this.session = null;
+      this.sessionPromise = null;
+      this.scheduleReconnect();
+    }
+  }
+
   private setPlaybackState(state: PlaybackState) {
     this.playbackState = state;
-    this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
+    this.emit('playback-state-changed', state);
   }
 
-  private async processAudioChunks(audioChunks: AudioChunk[]) {
+  private async processAudioChunk(pcm: Uint8Array) {
     if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
     const audioBuffer = await decodeAudioData(
-      decode(audioChunks[0].data!),
+      pcm,
       this.audioContext,
-      48000,
-      2,
+      MUSIC_SAMPLE_RATE,
+      MUSIC_CHANNELS,
     );
+    const now = this.audioContext.currentTime;
+    this.jitterBuffer.recordArrival(now, audioBuffer.duration);
+
     const source = this.audioContext.createBufferSource();
     source.buffer = audioBuffer;
-    source.connect(this.outputNode);
+    const chunkGain = this.audioContext.createGain();
+    source.connect(chunkGain);
+    chunkGain.connect(this.outputNode);
+
+    let startTime = this.nextStartTime;
+    let fadeIn = false;
     if (this.nextStartTime === 0) {
-      this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-      setTimeout(() => {
-        this.setPlaybackState('playing');
-      }, this.bufferTime * 1000);
-    }
-    if (this.nextStartTime < this.audioContext.currentTime) {
-      this.setPlaybackState('loading');
-      this.nextStartTime = 0;
-      return;
+      startTime = this.rebuffer(now);
+    } else if (this.nextStartTime < now + CROSSFADE_SECONDS) {
+      // Too late to cancel the fade-out of the last chunk: overlap it while it
+      // fades, or buffer up again once it has ended, instead of dropping audio.
+      this.jitterBuffer.recordUnderrun();
+      startTime = this.nextStartTime > now
+        ? Math.max(now, this.nextStartTime - CROSSFADE_SECONDS)
+        : this.rebuffer(now);
+      fadeIn = true;
+    } else {
+      // In time, so the last chunk plays on at full volume.
+      this.jitterBuffer.recordInTime();
+      this.lastChunkGain?.gain.cancelScheduledValues(this.nextStartTime - CROSSFADE_SECONDS);
     }
-    source.start(this.nextStartTime);
-    this.nextStartTime += audioBuffer.duration;
+
+    const endTime = startTime + audioBuffer.duration;
+    chunkGain.gain.setValueAtTime(fadeIn ? 0 : 1, startTime);
+    if (fadeIn) chunkGain.gain.linearRampToValueAtTime(1, startTime + CROSSFADE_SECONDS);
+    // Fade out in case the next chunk is late, cancelled once it arrives.
+    chunkGain.gain.setValueAtTime(1, endTime - CROSSFADE_SECONDS);
+    chunkGain.gain.linearRampToValueAtTime(0, endTime);
+    this.lastChunkGain = chunkGain;
+
+    source.start(startTime);
+    this.nextStartTime = endTime;
+    this.reconnectAttempts = 0;
+    if (this.playbackState === 'reconnecting') this.setPlaybackState('playing');
+    this.emit('audio-chunk', audioBuffer);
+  }
+
+  /** Buffers up to the latency target from `now`, returning the start time. */
+  private rebuffer(now: number) {
+    const target = this.jitterBuffer.targetSeconds;
+    if (this.playbackState !== 'loading') this.setPlaybackState('loading');
+    setTimeout(() => {
+      if (this.playbackState === 'loading') this.setPlaybackState('playing');
+    }, target * 1000);
+    return now + target;
+  }
+
+  /** Buffer health, for diagnostics. */
+  public getBufferHealth(): BufferHealth {
+    const queued = this.nextStartTime === 0 ? 0 : this.nextStartTime - this.audioContext.currentTime;
+    return this.jitterBuffer.getHealth(Math.max(0, queued));
   }
 
+  /** Prompts sent to the model, with mutes and solos applied to the weights. */
   public get activePrompts() {
-    return Array.from(this.prompts.values())
+    const prompts = Array.from(this.prompts.values());
+    const soloing = prompts.some((p) => p.soloed);
+    return prompts
+      .map((p) => ({ ...p, weight: p.muted || (soloing && !p.soloed) ? 0 : p.weight }))
       .filter((p) => {
         return !this.filteredPrompts.has(p.text) && p.weight !== 0;
       })
@@ -120,7 +271,7 @@ export class LiveMusicHelper extends EventTarget {
     this.prompts = prompts;
 
     if (this.activePrompts.length === 0) {
-      this.dispatchEvent(new CustomEvent('error', { detail: 'There needs to be one active prompt to play.' }));
+      this.emit('error', 'There needs to be one active prompt to play.');
       this.pause();
       return;
     }
@@ -130,46 +281,118 @@ export class LiveMusicHelper extends EventTarget {
     if (!this.session) return;
 
     try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts: this.activePrompts,
-      });
-    } catch (e: any) {
-      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+      await this.session.setWeightedPrompts(this.activePrompts);
+    } catch (e) {
+      this.emit('error', (e as Error).message);
+      this.pause();
+    }
+  }, PROMPT_UPDATE_INTERVAL_MS);
+
+  public readonly setMusicGenerationConfig = throttle(async (config: MusicConfig) => {
+    this.config = config;
+    this.fx.setBpm(config.bpm ?? DEFAULT_BPM);
+
+    // store the config to set later if we haven't connected yet
+    if (!this.session) return;
+
+    try {
+      await this.session.setMusicGenerationConfig(this.config);
+      this.scheduleContextReset();
+    } catch (e) {
+      this.emit('error', (e as Error).message);
       this.pause();
     }
-  }, 200);
+  }, PROMPT_UPDATE_INTERVAL_MS);
+
+  /** Whether the BPM or scale differ from the ones the context was started with. */
+  private get needsContextReset() {
+    const context = this.contextConfig;
+    return !!context && (this.config.bpm !== context.bpm || this.config.scale !== context.scale);
+  }
+
+  /**
+   * BPM and scale only take effect once the model's context is reset, which
+   * restarts the music. Waits for them to settle, so dragging a knob resets
+   * once at the end rather than on every update.
+   */
+  private scheduleContextReset() {
+    this.cancelContextReset();
+    if (!this.needsContextReset) return;
+    this.contextResetTimer = window.setTimeout(() => {
+      this.contextResetTimer = null;
+      if (!this.session || !this.needsContextReset) return;
+      this.session.resetContext();
+      this.contextConfig = { ...this.config };
+      this.emit('warning', 'BPM or scale changed, the music will restart from a new context.');
+    }, CONTEXT_RESET_DELAY_MS);
+  }
+
+  private cancelContextReset() {
+    if (this.contextResetTimer !== null) clearTimeout(this.contextResetTimer);
+    this.contextResetTimer = null;
+  }
 
   public async play() {
     this.setPlaybackState('loading');
-    this.session = await this.getSession();
-    await this.setWeightedPrompts(this.prompts);
+    const isNewSession = !this.session;
+    try {
+      this.session = await this.getSession();
+      await this.setWeightedPrompts(this.prompts);
+      await this.session.setMusicGenerationConfig(this.config);
+    } catch (e) {
+      this.session = null;
+      this.sessionPromise = null;
+      this.setPlaybackState('stopped');
+      this.emit('error', `Unable to connect: ${(e as Error).message}`);
+      return;
+    }
+    if (isNewSession) this.contextConfig = { ...this.config };
     this.audioContext.resume();
     this.session.play();
-    this.outputNode.connect(this.audioContext.destination);
+    this.outputNode.connect(this.fx.input);
     if (this.extraDestination) this.outputNode.connect(this.extraDestination);
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
   }
 
   public pause() {
+    this.cancelReconnect();
     if (this.session) this.session.pause();
     this.setPlaybackState('paused');
     this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.1);
     this.nextStartTime = 0;
+    this.lastChunkGain = null;
+    this.jitterBuffer.resetArrivals();
     this.outputNode = this.audioContext.createGain();
   }
 
   public stop() {
+    this.cancelReconnect();
     if (this.session) this.session.stop();
     this.setPlaybackState('stopped');
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
     this.nextStartTime = 0;
+    this.lastChunkGain = null;
+    this.jitterBuffer.resetArrivals();
+    this.cancelContextReset();
+    this.contextConfig = null;
     this.session = null;
     this.sessionPromise = null;
   }
 
+  /** Sets the master output volume, from 0 to 1. */
+  public setVolume(volume: number) {
+    const gain = Math.max(0, Math.min(1, volume));
+    this.masterNode.gain.setTargetAtTime(gain, this.audioContext.currentTime, 0.02);
+  }
+
+  /** Plays to an output device, the default one for an empty id. */
+  public async setSinkId(sinkId: string) {
+    await setContextSink(this.audioContext, sinkId);
+  }
+
   public async playPause() {
     switch (this.playbackState) {
       case 'playing':
@@ -178,6 +401,7 @@ export class LiveMusicHelper extends EventTarget {
       case 'stopped':
         return this.play();
       case 'loading':
+      case 'reconnecting':
         return this.stop();
     }
   }
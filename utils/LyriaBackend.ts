@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GoogleGenAI, LiveMusicServerMessage } from '@google/genai';
+import { decode } from './audio';
+import type { MusicBackend, MusicSession, MusicSessionCallbacks } from './MusicBackend';
+
+/** Generates music with the Lyria live music API. */
+export class LyriaBackend implements MusicBackend {
+  readonly name = 'lyria';
+
+  private readonly ai: GoogleGenAI;
+  private readonly model: string;
+
+  constructor(ai: GoogleGenAI, model: string) {
+    this.ai = ai;
+    this.model = model;
+  }
+
+  async connect(callbacks: MusicSessionCallbacks): Promise<MusicSession> {
+    const session = await this.ai.live.music.connect({
+      model: this.model,
+      callbacks: {
+        onmessage: async (e: LiveMusicServerMessage) => {
+          if (e.setupComplete) {
+            callbacks.onSetupComplete();
+          }
+          if (e.filteredPrompt) {
+            callbacks.onFilteredPrompt(e.filteredPrompt);
+          }
+          const data = e.serverContent?.audioChunks?.[0]?.data;
+          if (data) {
+            await callbacks.onAudioChunk(decode(data));
+          }
+        },
+        onerror: () => callbacks.onError(),
+        onclose: () => callbacks.onClose(),
+      },
+    });
+    return {
+      setWeightedPrompts: (prompts) => session.setWeightedPrompts({
+        weightedPrompts: prompts.map(({ text, weight }) => ({ text, weight })),
+      }),
+      setMusicGenerationConfig: (config) => session.setMusicGenerationConfig({
+        musicGenerationConfig: config,
+      }),
+      play: () => session.play(),
+      pause: () => session.pause(),
+      stop: () => session.stop(),
+      resetContext: () => session.resetContext(),
+      close: () => session.close(),
+    };
+  }
+}
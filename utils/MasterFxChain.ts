@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FxSettings } from '../types';
+
+/** What each unset field of `FxSettings` means: a neutral chain. */
+export const FX_DEFAULTS: Required<FxSettings> = {
+  eqLow: 0,
+  eqMid: 0,
+  eqHigh: 0,
+  killLow: false,
+  killMid: false,
+  killHigh: false,
+  filter: 0,
+  resonance: 0,
+  compressor: 0,
+  delaySend: 0,
+  delayBeats: 0.75,
+  delayFeedback: 0.4,
+  reverbSend: 0,
+};
+
+export type FxKill = 'killLow' | 'killMid' | 'killHigh';
+export type FxKnobParam = Exclude<keyof FxSettings, FxKill>;
+
+/** Range and step of each continuous effect parameter. */
+export const FX_RANGES: Record<FxKnobParam, { min: number; max: number; step: number }> = {
+  eqLow: { min: -24, max: 6, step: 0.5 },
+  eqMid: { min: -24, max: 6, step: 0.5 },
+  eqHigh: { min: -24, max: 6, step: 0.5 },
+  filter: { min: -1, max: 1, step: 0.01 },
+  resonance: { min: 0, max: 1, step: 0.01 },
+  compressor: { min: 0, max: 1, step: 0.01 },
+  delaySend: { min: 0, max: 1, step: 0.01 },
+  delayBeats: { min: 0.25, max: 2, step: 0.25 },
+  delayFeedback: { min: 0, max: 0.9, step: 0.01 },
+  reverbSend: { min: 0, max: 1, step: 0.01 },
+};
+
+/** The EQ band each kill switch silences. */
+export const FX_KILL_BANDS: Record<FxKill, FxKnobParam> = {
+  killLow: 'eqLow',
+  killMid: 'eqMid',
+  killHigh: 'eqHigh',
+};
+
+/** Tempo assumed while the config leaves the BPM unset. */
+export const DEFAULT_BPM = 120;
+
+/** Crossover frequencies between the EQ bands, in Hz. */
+const LOW_CROSSOVER_HZ = 250;
+const HIGH_CROSSOVER_HZ = 2500;
+
+/** Ranges swept by the filter, in Hz, from open to closed. */
+const LOW_PASS_MAX_HZ = 20000;
+const LOW_PASS_MIN_HZ = 100;
+const HIGH_PASS_MIN_HZ = 20;
+const HIGH_PASS_MAX_HZ = 8000;
+
+/**
+ * Q of a flat Butterworth response. Low and high-pass biquads take their Q
+ * in dB, so the linear 1/√2 becomes 20·log10(1/√2), about -3.01 dB.
+ */
+const BUTTERWORTH_Q = Math.SQRT1_2;
+const BUTTERWORTH_Q_DB = 20 * Math.log10(BUTTERWORTH_Q);
+/** The most resonance the filter adds on top of a flat response, in dB. */
+const MAX_RESONANCE_DB = 24;
+
+/** The compressor at full amount. */
+const MAX_COMPRESSOR_THRESHOLD_DB = -24;
+const MAX_COMPRESSOR_RATIO = 12;
+
+const MAX_DELAY_SECONDS = 4;
+const REVERB_SECONDS = 2.5;
+
+/** Time constant of parameter changes, so knob moves don't click. */
+const SMOOTHING_SECONDS = 0.02;
+
+/** Filter type and cutoff for a `filter` setting from -1 to 1. */
+export function filterResponse(filter: number): { type: BiquadFilterType; frequency: number } {
+  const amount = Math.max(-1, Math.min(1, filter));
+  if (amount > 0) {
+    return { type: 'highpass', frequency: HIGH_PASS_MIN_HZ * (HIGH_PASS_MAX_HZ / HIGH_PASS_MIN_HZ) ** amount };
+  }
+  return { type: 'lowpass', frequency: LOW_PASS_MAX_HZ * (LOW_PASS_MIN_HZ / LOW_PASS_MAX_HZ) ** -amount };
+}
+
+/** Delay time for a length in beats at the given tempo, in seconds. */
+export function delaySeconds(beats: number, bpm: number) {
+  return Math.min(MAX_DELAY_SECONDS, (beats * 60) / bpm);
+}
+
+function dbToGain(db: number) {
+  return 10 ** (db / 20);
+}
+
+/** Decaying stereo noise, a cheap stand-in for a recorded room. */
+function createImpulseResponse(context: BaseAudioContext, seconds: number) {
+  const length = Math.round(seconds * context.sampleRate);
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * (1 - i / length) ** 3;
+    }
+  }
+  return impulse;
+}
+
+/**
+ * A DJ style effects chain for the master bus: a 3-band isolator EQ with
+ * kills, a resonant filter sweep and a compressor in series, with delay and
+ * reverb sends returned before the compressor. Connect audio to `input` and
+ * `output` to the speakers.
+ */
+export class MasterFxChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private readonly context: BaseAudioContext;
+  private readonly bands: { low: GainNode; mid: GainNode; high: GainNode };
+  private readonly filter: BiquadFilterNode;
+  private readonly compressor: DynamicsCompressorNode;
+  private readonly delaySend: GainNode;
+  private readonly delay: DelayNode;
+  private readonly delayFeedback: GainNode;
+  private readonly reverbSend: GainNode;
+
+  private settings: Required<FxSettings> = { ...FX_DEFAULTS };
+  private bpm = DEFAULT_BPM;
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    // Linkwitz-Riley crossovers (two Butterworth stages each). The highs are
+    // split off what is above the low crossover, and the lows get an allpass
+    // at the high crossover to match its phase, so the bands sum back to a
+    // flat response.
+    const crossover = (type: BiquadFilterType, frequency: number) => {
+      const stages = [context.createBiquadFilter(), context.createBiquadFilter()];
+      for (const stage of stages) {
+        stage.type = type;
+        stage.frequency.value = frequency;
+        stage.Q.value = BUTTERWORTH_Q_DB;
+      }
+      stages[0].connect(stages[1]);
+      return stages;
+    };
+    const allpass = (frequency: number) => {
+      const stage = context.createBiquadFilter();
+      stage.type = 'allpass';
+      stage.frequency.value = frequency;
+      // Unlike the low and high-pass, an allpass takes a linear Q.
+      stage.Q.value = BUTTERWORTH_Q;
+      return [stage];
+    };
+    const eqSum = context.createGain();
+    const band = (...filters: BiquadFilterNode[][]) => {
+      const gain = context.createGain();
+      const stages = filters.flat();
+      stages.slice(1).forEach((stage, i) => stages[i].connect(stage));
+      this.input.connect(stages[0]);
+      stages[stages.length - 1].connect(gain);
+      gain.connect(eqSum);
+      return gain;
+    };
+    this.bands = {
+      low: band(crossover('lowpass', LOW_CROSSOVER_HZ), allpass(HIGH_CROSSOVER_HZ)),
+      mid: band(crossover('highpass', LOW_CROSSOVER_HZ), crossover('lowpass', HIGH_CROSSOVER_HZ)),
+      high: band(crossover('highpass', LOW_CROSSOVER_HZ), crossover('highpass', HIGH_CROSSOVER_HZ)),
+    };
+
+    this.filter = context.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.filter.frequency.value = LOW_PASS_MAX_HZ;
+    this.compressor = context.createDynamicsCompressor();
+    this.compressor.knee.value = 6;
+    this.compressor.attack.value = 0.005;
+    this.compressor.release.value = 0.2;
+    eqSum.connect(this.filter);
+    this.filter.connect(this.compressor);
+    // The compressor applies its own makeup gain.
+    this.compressor.connect(this.output);
+
+    this.delaySend = context.createGain();
+    this.delay = context.createDelay(MAX_DELAY_SECONDS);
+    this.delayFeedback = context.createGain();
+    this.filter.connect(this.delaySend);
+    this.delaySend.connect(this.delay);
+    this.delay.connect(this.delayFeedback);
+    this.delayFeedback.connect(this.delay);
+    this.delay.connect(this.compressor);
+
+    this.reverbSend = context.createGain();
+    const reverb = context.createConvolver();
+    reverb.buffer = createImpulseResponse(context, REVERB_SECONDS);
+    this.filter.connect(this.reverbSend);
+    this.reverbSend.connect(reverb);
+    reverb.connect(this.compressor);
+
+    this.set({});
+  }
+
+  /** Applies the settings, unset fields going back to neutral. */
+  set(settings: FxSettings) {
+    const s = { ...FX_DEFAULTS, ...settings };
+    this.settings = s;
+
+    this.ramp(this.bands.low.gain, s.killLow ? 0 : dbToGain(s.eqLow));
+    this.ramp(this.bands.mid.gain, s.killMid ? 0 : dbToGain(s.eqMid));
+    this.ramp(this.bands.high.gain, s.killHigh ? 0 : dbToGain(s.eqHigh));
+
+    const { type, frequency } = filterResponse(s.filter);
+    if (this.filter.type !== type) {
+      // Jump rather than sweep across the whole range when switching sides.
+      this.filter.type = type;
+      this.filter.frequency.setValueAtTime(frequency, this.context.currentTime);
+    } else {
+      this.ramp(this.filter.frequency, frequency);
+    }
+    // Without resonance at rest, the filter is transparent in the middle.
+    this.ramp(this.filter.Q, s.filter === 0 ? BUTTERWORTH_Q_DB : BUTTERWORTH_Q_DB + s.resonance * MAX_RESONANCE_DB);
+
+    const threshold = s.compressor * MAX_COMPRESSOR_THRESHOLD_DB;
+    const ratio = 1 + s.compressor * (MAX_COMPRESSOR_RATIO - 1);
+    this.ramp(this.compressor.threshold, threshold);
+    this.ramp(this.compressor.ratio, ratio);
+
+    this.ramp(this.delaySend.gain, s.delaySend);
+    this.ramp(this.delayFeedback.gain, Math.min(0.95, s.delayFeedback));
+    this.ramp(this.delay.delayTime, delaySeconds(s.delayBeats, this.bpm));
+    this.ramp(this.reverbSend.gain, s.reverbSend);
+  }
+
+  /** Keeps the delay in time with the music. */
+  setBpm(bpm: number) {
+    this.bpm = bpm;
+    this.ramp(this.delay.delayTime, delaySeconds(this.settings.delayBeats, bpm));
+  }
+
+  private ramp(param: AudioParam, value: number) {
+    param.setTargetAtTime(value, this.context.currentTime, SMOOTHING_SECONDS);
+  }
+}
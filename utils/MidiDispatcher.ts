@@ -2,44 +2,109 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { ControlChange } from '../types';
+import type { ChannelPressure, ControlChange, NoteMessage, PitchBend, ProgramChange } from '../types';
+import { TypedEventTarget } from './TypedEventTarget';
 
-/** Simple class for dispatching MIDI CC messages as events. */
-export class MidiDispatcher extends EventTarget {
-  // FIX: Change MIDIAccess to `any` due to missing Web MIDI API types.
-  private access: any | null = null;
-  activeMidiInputId: string | null = null;
+/** The 14-bit pitch bend value of a centered wheel. */
+const PITCH_BEND_CENTER = 0x2000;
+
+export interface MidiDispatcherEventMap {
+  /** Ids of the inputs connected after a device was plugged or unplugged. */
+  'inputs-changed': string[];
+  'note-message': NoteMessage;
+  'note-off-message': NoteMessage;
+  'cc-message': ControlChange;
+  'program-change-message': ProgramChange;
+  'pressure-message': ChannelPressure;
+  'pitch-bend-message': PitchBend;
+}
+
+/**
+ * Simple class for dispatching MIDI messages as typed events: `note-message`
+ * (Note On), `note-off-message`, `cc-message`, `program-change-message`,
+ * `pressure-message` (channel aftertouch) and `pitch-bend-message`.
+ * Messages from every enabled input are dispatched, tagged with the device
+ * name. Emits `inputs-changed` when hardware is connected or disconnected.
+ */
+export class MidiDispatcher extends TypedEventTarget<MidiDispatcherEventMap> {
+  private access: MIDIAccess | null = null;
+  /** Kept across disconnects so a replugged device is enabled again. */
+  private readonly enabledInputIds = new Set<string>();
 
   async getMidiAccess(): Promise<string[]> {
 
     if (this.access) {
-      return [...this.access.inputs.keys()];
+      return this.getInputIds();
     }
 
-    // FIX: Cast navigator to `any` to access requestMIDIAccess.
-    if (!(navigator as any).requestMIDIAccess) {
+    if (!navigator.requestMIDIAccess) {
       throw new Error('Your browser does not support the Web MIDI API. For a list of compatible browsers, see https://caniuse.com/midi');
     }
 
-    // FIX: Cast navigator to `any` to access requestMIDIAccess.
-    this.access = await (navigator as any)
-      .requestMIDIAccess({ sysex: false })
-      .catch((error: any) => error);
+    try {
+      this.access = await navigator.requestMIDIAccess({ sysex: false });
+    } catch (e) {
+      throw new Error(`Unable to acquire MIDI access: ${(e as Error).message}`);
+    }
+
+    this.attachInputs();
+    this.access.onstatechange = () => {
+      this.attachInputs();
+      this.emit('inputs-changed', this.getInputIds());
+    };
+
+    return this.getInputIds();
+  }
+
+  /** Ids of the inputs currently connected. */
+  getInputIds(): string[] {
+    return this.access ? [...this.access.inputs.keys()] : [];
+  }
+
+  /** Names of the connected inputs messages are dispatched from. */
+  getEnabledDeviceNames(): string[] {
+    return this.getInputIds()
+      .filter((id) => this.enabledInputIds.has(id))
+      .map((id) => this.getDeviceName(id) ?? id);
+  }
 
-    if (this.access === null) {
-      throw new Error('Unable to acquire MIDI access.');
+  /**
+   * Sends a message to the output port of a device. Controllers expose their
+   * input and output ports under the same name.
+   */
+  send(device: string, data: number[]) {
+    if (!this.access) return;
+    for (const output of this.access.outputs.values()) {
+      if (output.name === device && output.state === 'connected') output.send(data);
     }
+  }
+
+  isInputEnabled(id: string) {
+    return this.enabledInputIds.has(id);
+  }
 
-    const inputIds = [...this.access.inputs.keys()];
+  setInputEnabled(id: string, enabled: boolean) {
+    if (enabled) {
+      this.enabledInputIds.add(id);
+    } else {
+      this.enabledInputIds.delete(id);
+    }
+  }
 
-    if (inputIds.length > 0 && this.activeMidiInputId === null) {
-      this.activeMidiInputId = inputIds[0];
+  /**
+   * Listens to every connected input. The first input is enabled when none
+   * of the connected ones are, so a single controller works out of the box.
+   */
+  private attachInputs() {
+    if (!this.access) return;
+    const inputIds = this.getInputIds();
+    if (inputIds.length > 0 && !inputIds.some((id) => this.enabledInputIds.has(id))) {
+      this.enabledInputIds.add(inputIds[0]);
     }
 
     for (const input of this.access.inputs.values()) {
-      // FIX: Change MIDIMessageEvent to `any` due to missing Web MIDI API types.
-      input.onmidimessage = (event: any) => {
-        if (input.id !== this.activeMidiInputId) return;
+      input.onmidimessage = (event: MIDIMessageEvent) => {
+        if (!this.enabledInputIds.has(input.id)) return;
 
         const { data } = event;
         if (!data) {
@@ -47,21 +112,43 @@ export class MidiDispatcher extends EventTarget {
           return;
         }
 
-        const statusByte = data[0];
-        const channel = statusByte & 0x0f;
-        const messageType = statusByte & 0xf0;
-
-        const isControlChange = messageType === 0xb0;
-        if (!isControlChange) return;
-
-        const detail: ControlChange = { cc: data[1], value: data[2], channel };
-        this.dispatchEvent(
-          new CustomEvent<ControlChange>('cc-message', { detail }),
-        );
+        this.handleMessage(input.name ?? input.id, data);
       };
     }
+  }
+
+  private handleMessage(device: string, data: Uint8Array) {
+    const statusByte = data[0];
+    const channel = statusByte & 0x0f;
+    const messageType = statusByte & 0xf0;
 
-    return inputIds;
+    switch (messageType) {
+      case 0x90:
+        // Note On with velocity 0 is a Note Off.
+        if (data[2] > 0) {
+          this.emit('note-message', { device, channel, note: data[1], velocity: data[2] });
+        } else {
+          this.emit('note-off-message', { device, channel, note: data[1], velocity: 0 });
+        }
+        break;
+      case 0x80:
+        this.emit('note-off-message', { device, channel, note: data[1], velocity: data[2] });
+        break;
+      case 0xb0:
+        this.emit('cc-message', { device, channel, cc: data[1], value: data[2] });
+        break;
+      case 0xc0:
+        this.emit('program-change-message', { device, channel, program: data[1] });
+        break;
+      case 0xd0:
+        this.emit('pressure-message', { device, channel, pressure: data[1] });
+        break;
+      case 0xe0: {
+        const bend = (data[1] | (data[2] << 7)) - PITCH_BEND_CENTER;
+        this.emit('pitch-bend-message', { device, channel, value: bend / PITCH_BEND_CENTER });
+        break;
+      }
+    }
   }
 
   getDeviceName(id: string): string | null {
@@ -69,6 +156,6 @@ export class MidiDispatcher extends EventTarget {
       return null;
     }
     const input = this.access.inputs.get(id);
-    return input ? input.name : null;
+    return input?.name ?? null;
   }
 }
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt } from '../types';
+import { LSB_OFFSET } from './ccModes';
+import { weightToPosition } from './weightCurve';
+import type { MidiDispatcher } from './MidiDispatcher';
+import { PAD_ACTIONS, padControlId } from './MidiMappingRegistry';
+import type { MidiBinding, MidiMappingRegistry } from './MidiMappingRegistry';
+import { TypedEventTarget } from './TypedEventTarget';
+
+/**
+ * How a controller shows feedback. Pad colors are the Note On velocity (or
+ * CC value for CC buttons), which most controllers map onto their LED palette.
+ */
+export interface MidiOutputProfile {
+  id: string;
+  name: string;
+  /** Picks the profile automatically for devices whose name matches. */
+  match?: RegExp;
+  /** Echo prompt weights as CC values, for LED rings and motorized faders. */
+  sendCc: boolean;
+  padOff: number;
+  padOn: number;
+  /** Flashed on the pad of a prompt the server filtered. */
+  padAlert: number;
+}
+
+/**
+ * Most specific first, then the generic fallback. It doesn't echo CCs, which
+ * an unknown keyboard or synth could take as bank select, volume or pan.
+ * Faders and encoders that want them can be set to the generic CC profile.
+ */
+export const OUTPUT_PROFILES: MidiOutputProfile[] = [
+  { id: 'apc-mini-mk2', name: 'Akai APC mini mk2', match: /APC mini mk2/i, sendCc: false, padOff: 0, padOn: 21, padAlert: 5 },
+  { id: 'apc-mini', name: 'Akai APC mini', match: /APC MINI/i, sendCc: false, padOff: 0, padOn: 1, padAlert: 3 },
+  { id: 'launchpad', name: 'Novation Launchpad', match: /Launchpad/i, sendCc: false, padOff: 0, padOn: 21, padAlert: 5 },
+  { id: 'x-touch-mini', name: 'Behringer X-Touch Mini', match: /X-TOUCH MINI/i, sendCc: true, padOff: 0, padOn: 1, padAlert: 2 },
+  { id: 'nanokontrol2', name: 'Korg nanoKONTROL2', match: /nanoKONTROL2/i, sendCc: false, padOff: 0, padOn: 127, padAlert: 127 },
+  { id: 'generic', name: 'Generic', sendCc: false, padOff: 0, padOn: 127, padAlert: 127 },
+  { id: 'generic-cc', name: 'Generic with CC feedback', sendCc: true, padOff: 0, padOn: 127, padAlert: 127 },
+];
+
+/** Profile setting that turns feedback off for a device. */
+export const PROFILE_OFF = 'off';
+
+const STORAGE_KEY = 'prompt-dj-midi-output-profiles-v1';
+
+const FLASH_COUNT = 3;
+const FLASH_INTERVAL_MS = 150;
+
+export interface MidiFeedbackEventMap {
+  'profiles-changed': void;
+}
+
+/**
+ * Sends prompt state back to the controllers it is mapped on: CC values for
+ * weights and LED colors for pads. Only changed values are sent.
+ */
+export class MidiFeedback extends TypedEventTarget<MidiFeedbackEventMap> {
+  private readonly midiDispatcher: MidiDispatcher;
+  private readonly midiMappings: MidiMappingRegistry;
+  private prompts = new Map<string, Prompt>();
+  /** Last value sent per device and binding. */
+  private readonly sent = new Map<string, number>();
+  private readonly flashing = new Set<string>();
+  /** Profile id or `PROFILE_OFF` per device name, unset meaning automatic. */
+  private settings: Record<string, string>;
+
+  constructor(midiDispatcher: MidiDispatcher, midiMappings: MidiMappingRegistry) {
+    super();
+    this.midiDispatcher = midiDispatcher;
+    this.midiMappings = midiMappings;
+    this.settings = this.load();
+    midiMappings.addEventListener('mappings-changed', () => this.resync());
+    midiDispatcher.addEventListener('inputs-changed', () => this.resync());
+  }
+
+  /** The profile setting for a device, or null when picked automatically. */
+  getProfileSetting(device: string): string | null {
+    return this.settings[device] ?? null;
+  }
+
+  setProfileSetting(device: string, setting: string | null) {
+    if (setting === null) {
+      delete this.settings[device];
+    } else {
+      this.settings[device] = setting;
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    this.emit('profiles-changed');
+    this.resync();
+  }
+
+  /** The profile in use for a device, or null when feedback is off. */
+  getProfile(device: string): MidiOutputProfile | null {
+    const setting = this.getProfileSetting(device);
+    if (setting === PROFILE_OFF) return null;
+    return OUTPUT_PROFILES.find((p) => p.id === setting) ?? matchProfile(device);
+  }
+
+  update(prompts: Map<string, Prompt>) {
+    this.prompts = prompts;
+    for (const prompt of prompts.values()) {
+      this.sendWeight(prompt);
+      this.sendPads(prompt);
+    }
+  }
+
+  /** Blinks the prompt's pads in the alert color, then restores them. */
+  flash(promptId: string) {
+    if (this.flashing.has(promptId)) return;
+    this.flashing.add(promptId);
+    let step = 0;
+    const timer = window.setInterval(() => {
+      if (step === FLASH_COUNT * 2) {
+        clearInterval(timer);
+        this.flashing.delete(promptId);
+        const prompt = this.prompts.get(promptId);
+        if (prompt) this.sendPads(prompt, true);
+        return;
+      }
+      for (const { device, binding } of this.getPadBindings(promptId)) {
+        const profile = this.getProfile(device);
+        if (!profile) continue;
+        this.sendBinding(device, binding, step % 2 === 0 ? profile.padAlert : profile.padOff);
+      }
+      step++;
+    }, FLASH_INTERVAL_MS);
+  }
+
+  /** Resends everything, e.g. after a device reconnects. */
+  resync() {
+    this.sent.clear();
+    this.update(this.prompts);
+  }
+
+  /** Echoes the weight to the device the prompt's CC was learned from, if any. */
+  private sendWeight(prompt: Prompt) {
+    const device = prompt.device;
+    if (!device || !this.getProfile(device)?.sendCc) return;
+    const position = weightToPosition(prompt, prompt.weight);
+    const channel = prompt.channel ?? 0;
+    const messages: Array<[MidiBinding, number]> = [];
+    if (prompt.ccMode === '14-bit' && prompt.cc < LSB_OFFSET) {
+      const value = Math.round(position * 16383);
+      messages.push(
+        [{ type: 'cc', channel, number: prompt.cc }, value >> 7],
+        [{ type: 'cc', channel, number: prompt.cc + LSB_OFFSET }, value & 0x7f],
+      );
+    } else {
+      messages.push([{ type: 'cc', channel, number: prompt.cc }, Math.round(position * 127)]);
+    }
+    for (const [binding, value] of messages) this.sendIfChanged(device, binding, value);
+  }
+
+  private sendPads(prompt: Prompt, force = false) {
+    if (this.flashing.has(prompt.promptId)) return;
+    for (const { action, device, binding } of this.getPadBindings(prompt.promptId)) {
+      const profile = this.getProfile(device);
+      if (!profile) continue;
+      const lit = action === 'mute' ? prompt.muted
+        : action === 'solo-latch' ? prompt.soloed
+        : prompt.weight > 0;
+      const value = lit ? profile.padOn : profile.padOff;
+      if (force) this.sent.delete(bindingKey(device, binding));
+      this.sendIfChanged(device, binding, value);
+    }
+  }
+
+  private getPadBindings(promptId: string) {
+    return PAD_ACTIONS.flatMap((action) => this.midiMappings
+      .getBindings(padControlId(action, promptId))
+      .map((deviceBinding) => ({ action, ...deviceBinding })));
+  }
+
+  private sendIfChanged(device: string, binding: MidiBinding, value: number) {
+    const key = bindingKey(device, binding);
+    if (this.sent.get(key) === value) return;
+    this.sent.set(key, value);
+    this.sendBinding(device, binding, value);
+  }
+
+  private sendBinding(device: string, binding: MidiBinding, value: number) {
+    const status = (binding.type === 'cc' ? 0xb0 : 0x90) | binding.channel;
+    this.midiDispatcher.send(device, [status, binding.number, value]);
+  }
+
+  private load(): Record<string, string> {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return {};
+    try {
+      return JSON.parse(stored);
+    } catch (e) {
+      console.error('Unable to parse MIDI output profiles', e);
+      return {};
+    }
+  }
+}
+
+/** The first profile whose pattern matches the device name. */
+export function matchProfile(device: string): MidiOutputProfile {
+  return OUTPUT_PROFILES.find((p) => !p.match || p.match.test(device))!;
+}
+
+function bindingKey(device: string, binding: MidiBinding) {
+  return `${device}:${binding.type}:${binding.channel}:${binding.number}`;
+}
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiDispatcher } from './MidiDispatcher';
+import { TypedEventTarget } from './TypedEventTarget';
+
+/** A CC or note on a given channel that a control is bound to. */
+export interface MidiBinding {
+  type: 'cc' | 'note';
+  channel: number;
+  number: number;
+}
+
+/**
+ * An app control that can be bound to MIDI.
+ * Triggers fire once per button press, and `midi-release` when it is let go.
+ * Continuous controls follow the value.
+ */
+export interface MidiControl {
+  id: string;
+  label: string;
+  kind: 'trigger' | 'continuous';
+}
+
+/** Emitted when a bound control receives MIDI. `value` is normalized to 0-1. */
+export interface MidiControlEvent {
+  controlId: string;
+  value: number;
+}
+
+/** A control's binding on one MIDI input. */
+export interface DeviceBinding {
+  device: string;
+  binding: MidiBinding;
+}
+
+/**
+ * What a pad bound to a prompt does: flip its weight on and off, solo it
+ * while held, or switch its mute or solo state.
+ */
+export type PadAction = 'toggle' | 'solo' | 'mute' | 'solo-latch';
+
+export const PAD_ACTIONS: PadAction[] = ['toggle', 'solo', 'mute', 'solo-latch'];
+
+export const PAD_ACTION_LABELS: Record<PadAction, string> = {
+  'toggle': 'Toggle',
+  'solo': 'Hold solo',
+  'mute': 'Mute',
+  'solo-latch': 'Solo',
+};
+
+/** Control id of a prompt's pad, e.g. `pad-solo:prompt-3`. */
+export function padControlId(action: PadAction, promptId: string) {
+  return `pad-${action}:${promptId}`;
+}
+
+export function parsePadControlId(controlId: string): { action: PadAction; promptId: string } | null {
+  for (const action of PAD_ACTIONS) {
+    const prefix = `pad-${action}:`;
+    if (controlId.startsWith(prefix)) return { action, promptId: controlId.slice(prefix.length) };
+  }
+  return null;
+}
+
+const STORAGE_KEY = 'prompt-dj-midi-mappings-v1';
+
+/** CC values at or above this count as a pressed button. */
+const PRESS_THRESHOLD = 64;
+
+export function describeBinding(binding: MidiBinding) {
+  const number = binding.type === 'cc'
+    ? `CC:${binding.number}`
+    : `Note:${binding.number}`;
+  return `Ch${binding.channel + 1} ${number}`;
+}
+
+export interface MidiMappingRegistryEventMap {
+  /** Every message on a bound control. */
+  'midi-control': MidiControlEvent;
+  /** A button press on a bound control. */
+  'midi-trigger': MidiControlEvent;
+  /** A button release on a bound control. */
+  'midi-release': MidiControlEvent;
+  'mappings-changed': void;
+}
+
+/**
+ * Maps app controls to MIDI CCs and notes, with learn mode.
+ * Mappings are keyed by MIDI device name, channel and number, so each
+ * controller keeps its own layout and several can be used at once.
+ */
+export class MidiMappingRegistry extends TypedEventTarget<MidiMappingRegistryEventMap> {
+  /** Bindings by device name, then control id. */
+  private devices = new Map<string, Map<string, MidiBinding>>();
+  /** Last CC value per binding, so buttons only trigger on press. */
+  private lastValues = new Map<string, number>();
+
+  learningControlId: string | null = null;
+
+  constructor(midiDispatcher: MidiDispatcher) {
+    super();
+    midiDispatcher.addEventListener('cc-message', (e) => {
+      const { device, channel, cc, value } = e.detail;
+      this.handleMessage(device, { type: 'cc', channel, number: cc }, value);
+    });
+    midiDispatcher.addEventListener('note-message', (e) => {
+      const { device, channel, note, velocity } = e.detail;
+      this.handleMessage(device, { type: 'note', channel, number: note }, velocity);
+    });
+    midiDispatcher.addEventListener('note-off-message', (e) => {
+      const { device, channel, note } = e.detail;
+      this.handleRelease(device, { type: 'note', channel, number: note });
+    });
+    this.load();
+  }
+
+  /** The control's binding on each device it is mapped on. */
+  getBindings(controlId: string): DeviceBinding[] {
+    const result: DeviceBinding[] = [];
+    for (const [device, bindings] of this.devices) {
+      const binding = bindings.get(controlId);
+      if (binding) result.push({ device, binding });
+    }
+    return result;
+  }
+
+  /** Binds the next CC or note received, from any input, to the given control. */
+  learn(controlId: string) {
+    this.learningControlId = controlId;
+    this.dispatchChange();
+  }
+
+  cancelLearn() {
+    this.learningControlId = null;
+    this.dispatchChange();
+  }
+
+  /** Removes the control's bindings on every device. */
+  unmap(controlId: string) {
+    for (const bindings of this.devices.values()) bindings.delete(controlId);
+    this.save();
+    this.dispatchChange();
+  }
+
+  private handleMessage(device: string, binding: MidiBinding, value: number) {
+    let bindings = this.devices.get(device);
+    if (this.learningControlId) {
+      if (!bindings) {
+        bindings = new Map();
+        this.devices.set(device, bindings);
+      }
+      // a binding can only drive one control
+      for (const [id, existing] of bindings) {
+        if (isSameBinding(existing, binding)) bindings.delete(id);
+      }
+      bindings.set(this.learningControlId, binding);
+      this.learningControlId = null;
+      this.save();
+      this.dispatchChange();
+      return;
+    }
+
+    for (const [controlId, existing] of bindings ?? []) {
+      if (!isSameBinding(existing, binding)) continue;
+      const key = `${device}:${binding.type}:${binding.channel}:${binding.number}`;
+      const lastValue = this.lastValues.get(key) ?? 0;
+      this.lastValues.set(key, value);
+      // Note On is always a press, CCs need a rising edge to count as one.
+      const pressed = binding.type === 'note' ||
+        (value >= PRESS_THRESHOLD && lastValue < PRESS_THRESHOLD);
+      const released = binding.type === 'cc' &&
+        value < PRESS_THRESHOLD && lastValue >= PRESS_THRESHOLD;
+      this.emit('midi-control', { controlId, value: value / 127 });
+      if (pressed) {
+        this.emit('midi-trigger', { controlId, value: value / 127 });
+      }
+      if (released) {
+        this.emit('midi-release', { controlId, value: 0 });
+      }
+    }
+  }
+
+  /** Note Offs end a press, so held pads can act momentarily. */
+  private handleRelease(device: string, binding: MidiBinding) {
+    if (this.learningControlId) return;
+    for (const [controlId, existing] of this.devices.get(device) ?? []) {
+      if (!isSameBinding(existing, binding)) continue;
+      this.emit('midi-release', { controlId, value: 0 });
+    }
+  }
+
+  private dispatchChange() {
+    this.emit('mappings-changed');
+  }
+
+  private readAll(): Record<string, Record<string, MidiBinding>> {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return {};
+    try {
+      return JSON.parse(stored);
+    } catch (e) {
+      console.error('Unable to parse MIDI mappings', e);
+      return {};
+    }
+  }
+
+  private load() {
+    this.devices = new Map(Object.entries(this.readAll()).map(
+      ([device, bindings]) => [device, new Map(Object.entries(bindings))],
+    ));
+  }
+
+  private save() {
+    const all: Record<string, Record<string, MidiBinding>> = {};
+    for (const [device, bindings] of this.devices) {
+      if (bindings.size > 0) all[device] = Object.fromEntries(bindings);
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  }
+}
+
+function isSameBinding(a: MidiBinding, b: MidiBinding) {
+  return a.type === b.type && a.channel === b.channel && a.number === b.number;
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MusicConfig } from '../types';
+import { floatTo16Bit } from './audio';
+import { MUSIC_CHANNELS, MUSIC_SAMPLE_RATE } from './MusicBackend';
+import type { MusicBackend, MusicSession, MusicSessionCallbacks, WeightedPrompt } from './MusicBackend';
+
+/** Seconds of audio per chunk, about what the live API sends. */
+const CHUNK_SECONDS = 2;
+
+/** Semitones of the minor pentatonic scale prompts are tuned to. */
+const PENTATONIC = [0, 3, 5, 7, 10];
+const BASE_FREQUENCY = 110;
+const OUTPUT_GAIN = 0.3;
+
+/**
+ * A local stand-in for the live API, for demos and development without a
+ * network or API key. Each prompt is a tone whose pitch and pan come from
+ * its text, mixed by weight and pulsed at the configured bpm. Brightness adds
+ * harmonics and density adds noise on the off-beats.
+ */
+export class MockMusicBackend implements MusicBackend {
+  readonly name = 'mock';
+
+  async connect(callbacks: MusicSessionCallbacks): Promise<MusicSession> {
+    setTimeout(() => callbacks.onSetupComplete());
+    return new MockMusicSession(callbacks);
+  }
+}
+
+class MockMusicSession implements MusicSession {
+  private readonly callbacks: MusicSessionCallbacks;
+  private prompts: WeightedPrompt[] = [];
+  private config: MusicConfig = {};
+  private timer: number | null = null;
+  /** Frames generated since the start, keeping tones in phase across chunks. */
+  private frame = 0;
+  private closed = false;
+
+  constructor(callbacks: MusicSessionCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  async setWeightedPrompts(prompts: WeightedPrompt[]) {
+    this.prompts = prompts;
+  }
+
+  async setMusicGenerationConfig(config: MusicConfig) {
+    this.config = config;
+  }
+
+  play() {
+    if (this.timer !== null || this.closed) return;
+    this.sendChunk();
+    this.timer = window.setInterval(() => this.sendChunk(), CHUNK_SECONDS * 1000);
+  }
+
+  pause() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  stop() {
+    this.pause();
+    this.frame = 0;
+  }
+
+  resetContext() {
+    this.frame = 0;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.stop();
+    this.closed = true;
+    setTimeout(() => this.callbacks.onClose());
+  }
+
+  private sendChunk() {
+    const samples = floatTo16Bit(this.render(CHUNK_SECONDS * MUSIC_SAMPLE_RATE));
+    this.callbacks.onAudioChunk(new Uint8Array(samples.buffer));
+  }
+
+  /** Renders interleaved stereo samples for the next `frames` frames. */
+  private render(frames: number): Float32Array {
+    const out = new Float32Array(frames * MUSIC_CHANNELS);
+    const bpm = this.config.bpm ?? 120;
+    const brightness = this.config.brightness ?? 0.5;
+    const density = this.config.density ?? 0.5;
+    const framesPerBeat = (MUSIC_SAMPLE_RATE * 60) / bpm;
+    const totalWeight = this.prompts.reduce((sum, p) => sum + p.weight, 0);
+    const voices = this.prompts.map((p) => {
+      const hash = hashText(p.text);
+      const semitone = PENTATONIC[hash % PENTATONIC.length] + 12 * ((hash >> 4) % 3);
+      return {
+        step: (2 * Math.PI * BASE_FREQUENCY * 2 ** (semitone / 12)) / MUSIC_SAMPLE_RATE,
+        gain: (OUTPUT_GAIN * p.weight) / Math.max(1, totalWeight),
+        pan: ((hash >> 8) % 100) / 99,
+      };
+    });
+
+    for (let i = 0; i < frames; i++) {
+      const frame = this.frame + i;
+      const beat = (frame % framesPerBeat) / framesPerBeat;
+      const pulse = 0.6 + 0.4 * Math.exp(-6 * beat);
+      let left = 0;
+      let right = 0;
+      for (const { step, gain, pan } of voices) {
+        const phase = step * frame;
+        const tone = Math.sin(phase) +
+          brightness * (0.5 * Math.sin(2 * phase) + 0.25 * Math.sin(3 * phase));
+        const sample = tone * gain * pulse;
+        left += sample * (1 - pan);
+        right += sample * pan;
+      }
+      const offBeat = Math.abs(beat - 0.5);
+      if (voices.length > 0 && offBeat < 0.05) {
+        const noise = (Math.random() * 2 - 1) * density * 0.1 * (1 - offBeat / 0.05);
+        left += noise;
+        right += noise;
+      }
+      out[i * 2] = left;
+      out[i * 2 + 1] = right;
+    }
+    this.frame += frames;
+    return out;
+  }
+}
+
+/** A small stable hash (FNV-1a), so a prompt always sounds the same. */
+function hashText(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LiveMusicFilteredPrompt } from '@google/genai';
+import type { MusicConfig } from '../types';
+
+/** Audio chunks are 16-bit interleaved stereo PCM at this rate. */
+export const MUSIC_SAMPLE_RATE = 48000;
+export const MUSIC_CHANNELS = 2;
+
+/** The minimum time between prompt updates sent to a session. */
+export const PROMPT_UPDATE_INTERVAL_MS = 200;
+
+export interface WeightedPrompt {
+  text: string;
+  weight: number;
+}
+
+/** Called by a session as it runs. */
+export interface MusicSessionCallbacks {
+  /** The session is ready for prompts and playback. */
+  onSetupComplete(): void;
+  onAudioChunk(pcm: Uint8Array): void | Promise<void>;
+  /** A prompt the backend refuses to play. */
+  onFilteredPrompt(prompt: LiveMusicFilteredPrompt): void;
+  onError(): void;
+  onClose(): void;
+}
+
+/** A connection generating music from weighted prompts. */
+export interface MusicSession {
+  setWeightedPrompts(prompts: WeightedPrompt[]): Promise<void>;
+  setMusicGenerationConfig(config: MusicConfig): Promise<void>;
+  play(): void;
+  pause(): void;
+  stop(): void;
+  /** Starts over from a fresh context, for settings like bpm that need it. */
+  resetContext(): void;
+  close(): void;
+}
+
+/** Where the music comes from: the live API or a local generator. */
+export interface MusicBackend {
+  readonly name: string;
+  connect(callbacks: MusicSessionCallbacks): Promise<MusicSession>;
+}
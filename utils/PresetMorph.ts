@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt } from '../types';
+import { crossfadePrompts } from './crossfade';
+import { PROMPT_UPDATE_INTERVAL_MS } from './MusicBackend';
+import { TypedEventTarget } from './TypedEventTarget';
+
+export type Easing = 'linear' | 'exponential' | 's-curve';
+
+/** Maps linear progress in 0-1 onto each curve. */
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  'linear': (t) => t,
+  'exponential': (t) => (2 ** (10 * t) - 1) / (2 ** 10 - 1),
+  's-curve': (t) => 0.5 - 0.5 * Math.cos(Math.PI * t),
+};
+
+/**
+ * Steps are sent slightly slower than the prompt update throttle, so each one
+ * goes out right away instead of being merged into a trailing update.
+ */
+const STEP_INTERVAL_MS = PROMPT_UPDATE_INTERVAL_MS + 20;
+
+export interface MorphStep {
+  prompts: Map<string, Prompt>;
+  progress: number;
+}
+
+export interface PresetMorphEventMap {
+  'morph-step': MorphStep;
+  'morph-complete': void;
+  'morph-cancelled': void;
+}
+
+/**
+ * Ramps prompt weights from one set to another over a fixed duration.
+ * Emits `morph-step` for each update and `morph-complete` when done.
+ */
+export class PresetMorph extends TypedEventTarget<PresetMorphEventMap> {
+  private readonly from: Map<string, Prompt>;
+  private readonly to: Map<string, Prompt>;
+  private readonly durationMs: number;
+  private readonly easing: Easing;
+
+  private startTime = 0;
+  private timer: number | null = null;
+
+  constructor(
+    from: Map<string, Prompt>,
+    to: Map<string, Prompt>,
+    durationMs: number,
+    easing: Easing,
+  ) {
+    super();
+    this.from = from;
+    this.to = to;
+    this.durationMs = Math.max(0, durationMs);
+    this.easing = easing;
+  }
+
+  get running() {
+    return this.timer !== null;
+  }
+
+  start() {
+    this.startTime = performance.now();
+    this.timer = window.setInterval(() => this.step(), STEP_INTERVAL_MS);
+    this.step();
+  }
+
+  cancel() {
+    if (!this.stopTimer()) return;
+    this.emit('morph-cancelled');
+  }
+
+  private stopTimer() {
+    if (this.timer === null) return false;
+    clearInterval(this.timer);
+    this.timer = null;
+    return true;
+  }
+
+  private step() {
+    const elapsed = performance.now() - this.startTime;
+    const progress = this.durationMs === 0 ? 1 : Math.min(1, elapsed / this.durationMs);
+    if (progress >= 1) {
+      this.stopTimer();
+      this.emit('morph-complete');
+      return;
+    }
+    const prompts = crossfadePrompts(this.from, this.to, EASINGS[this.easing](progress));
+    this.emit('morph-step', { prompts, progress });
+  }
+}
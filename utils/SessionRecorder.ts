@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, RecordingState } from '../types';
+import type { TakeStore, TakeTimelineEvent } from './TakeStore';
+import { TypedEventTarget } from './TypedEventTarget';
+
+export interface SessionRecorderEventMap {
+  'recording-state-changed': RecordingState;
+  'error': string;
+}
+
+/**
+ * Records the decoded output stream into takes.
+ * Arming waits for the next audio chunk, so a take never starts with silence
+ * while the session is buffering.
+ */
+export class SessionRecorder extends TypedEventTarget<SessionRecorderEventMap> {
+  private readonly store: TakeStore;
+
+  private state: RecordingState = 'idle';
+  private chunks: Float32Array[][] = [];
+  private recordedFrames = 0;
+  private sampleRate = 48000;
+  private timeline: TakeTimelineEvent[] = [];
+  private currentPrompts: TakeTimelineEvent['prompts'] = [];
+  private takeCount = 0;
+
+  constructor(store: TakeStore) {
+    super();
+    this.store = store;
+  }
+
+  get recordingState() {
+    return this.state;
+  }
+
+  private setRecordingState(state: RecordingState) {
+    this.state = state;
+    this.emit('recording-state-changed', state);
+  }
+
+  arm() {
+    if (this.state !== 'idle') return;
+    this.chunks = [];
+    this.recordedFrames = 0;
+    this.timeline = [];
+    this.setRecordingState('armed');
+  }
+
+  async stop() {
+    const wasRecording = this.state === 'recording';
+    this.setRecordingState('idle');
+    if (!wasRecording || this.recordedFrames === 0) return;
+
+    const numChannels = this.chunks[0].length;
+    const channels = Array.from({ length: numChannels }, (_, c) => {
+      const data = new Float32Array(this.recordedFrames);
+      let offset = 0;
+      for (const chunk of this.chunks) {
+        data.set(chunk[c], offset);
+        offset += chunk[c].length;
+      }
+      return data;
+    });
+    this.chunks = [];
+
+    const createdAt = Date.now();
+    this.takeCount++;
+    try {
+      await this.store.save({
+        id: `take-${createdAt}`,
+        name: `Take ${this.takeCount} – ${new Date(createdAt).toLocaleTimeString()}`,
+        createdAt,
+        duration: this.recordedFrames / this.sampleRate,
+        sampleRate: this.sampleRate,
+        timeline: this.timeline,
+        channels,
+      });
+    } catch (e) {
+      this.emit('error', `Unable to save take: ${(e as Error).message}`);
+    }
+  }
+
+  toggle() {
+    return this.state === 'idle' ? this.arm() : this.stop();
+  }
+
+  /** Appends a decoded chunk of the output stream. */
+  addAudio(buffer: AudioBuffer) {
+    if (this.state === 'idle') return;
+    if (this.state === 'armed') {
+      this.sampleRate = buffer.sampleRate;
+      this.timeline.push({ time: 0, prompts: this.currentPrompts });
+      this.setRecordingState('recording');
+    }
+    const chunk: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      chunk.push(buffer.getChannelData(c).slice());
+    }
+    this.chunks.push(chunk);
+    this.recordedFrames += buffer.length;
+  }
+
+  /** Notes the prompts in use, adding them to the timeline while recording. */
+  logPrompts(prompts: Map<string, Prompt>) {
+    this.currentPrompts = [...prompts.values()].map(({ promptId, text, weight }) => ({
+      promptId,
+      text,
+      weight,
+    }));
+    if (this.state === 'recording') {
+      this.timeline.push({
+        time: this.recordedFrames / this.sampleRate,
+        prompts: this.currentPrompts,
+      });
+    }
+  }
+}
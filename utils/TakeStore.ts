@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { TypedEventTarget } from './TypedEventTarget';
+
+/** A snapshot of the prompts at a point in a take, in seconds from its start. */
+export interface TakeTimelineEvent {
+  time: number;
+  prompts: Array<{ promptId: string; text: string; weight: number }>;
+}
+
+/** Everything about a take except its audio, which is loaded on demand. */
+export interface TakeInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  duration: number;
+  sampleRate: number;
+  timeline: TakeTimelineEvent[];
+}
+
+export interface Take extends TakeInfo {
+  /** Planar audio, one array per channel. */
+  channels: Float32Array[];
+}
+
+const DB_NAME = 'prompt-dj-takes';
+const DB_VERSION = 1;
+const INFO_STORE = 'takes';
+const AUDIO_STORE = 'audio';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export interface TakeStoreEventMap {
+  'takes-changed': void;
+}
+
+/** Persists recorded takes in IndexedDB. */
+export class TakeStore extends TypedEventTarget<TakeStoreEventMap> {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(INFO_STORE, { keyPath: 'id' });
+        db.createObjectStore(AUDIO_STORE);
+      };
+      this.dbPromise = promisify(request);
+    }
+    return this.dbPromise;
+  }
+
+  async list(): Promise<TakeInfo[]> {
+    const db = await this.getDb();
+    const tx = db.transaction(INFO_STORE, 'readonly');
+    const takes: TakeInfo[] = await promisify(tx.objectStore(INFO_STORE).getAll());
+    return takes.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async get(id: string): Promise<Take | null> {
+    const db = await this.getDb();
+    const tx = db.transaction([INFO_STORE, AUDIO_STORE], 'readonly');
+    const [info, channels] = await Promise.all([
+      promisify<TakeInfo | undefined>(tx.objectStore(INFO_STORE).get(id)),
+      promisify<Float32Array[] | undefined>(tx.objectStore(AUDIO_STORE).get(id)),
+    ]);
+    if (!info || !channels) return null;
+    return { ...info, channels };
+  }
+
+  async save(take: Take) {
+    const { channels, ...info } = take;
+    const db = await this.getDb();
+    const tx = db.transaction([INFO_STORE, AUDIO_STORE], 'readwrite');
+    tx.objectStore(INFO_STORE).put(info);
+    tx.objectStore(AUDIO_STORE).put(channels, take.id);
+    await transactionDone(tx);
+    this.dispatchChange();
+  }
+
+  async rename(id: string, name: string) {
+    const db = await this.getDb();
+    const tx = db.transaction(INFO_STORE, 'readwrite');
+    const store = tx.objectStore(INFO_STORE);
+    const info = await promisify<TakeInfo | undefined>(store.get(id));
+    if (!info) return;
+    store.put({ ...info, name });
+    await transactionDone(tx);
+    this.dispatchChange();
+  }
+
+  async delete(id: string) {
+    const db = await this.getDb();
+    const tx = db.transaction([INFO_STORE, AUDIO_STORE], 'readwrite');
+    tx.objectStore(INFO_STORE).delete(id);
+    tx.objectStore(AUDIO_STORE).delete(id);
+    await transactionDone(tx);
+    this.dispatchChange();
+  }
+
+  private dispatchChange() {
+    this.emit('takes-changed');
+  }
+}
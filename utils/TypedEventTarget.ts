@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A listener for the event `K` of the event map `M`. */
+export type TypedListener<M, K extends keyof M> =
+  | ((event: CustomEvent<M[K]>) => void)
+  | { handleEvent(event: CustomEvent<M[K]>): void };
+
+/**
+ * An EventTarget whose events are declared up front, so listeners get the
+ * right `detail` type and unknown event names fail to compile. `M` maps each
+ * event name to the `detail` of its CustomEvent, `void` for events without.
+ */
+export interface TypedEventTarget<M extends object> extends EventTarget {
+  addEventListener<K extends keyof M & string>(
+    type: K,
+    listener: TypedListener<M, K> | null,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  removeEventListener<K extends keyof M & string>(
+    type: K,
+    listener: TypedListener<M, K> | null,
+    options?: boolean | EventListenerOptions,
+  ): void;
+}
+
+export class TypedEventTarget<M extends object> extends EventTarget {
+  /** Dispatches a CustomEvent whose detail is checked against the event map. */
+  protected emit<K extends keyof M & string>(
+    type: K,
+    ...detail: M[K] extends void ? [] : [M[K]]
+  ): boolean {
+    return this.dispatchEvent(new CustomEvent(type, { detail: detail[0] }));
+  }
+}
@@ -38,14 +38,23 @@ function createBlob(data: Float32Array): Blob {
   };
 }
 
+/** Converts float samples in -1 to 1 to 16-bit PCM, clipping out of range values. */
+function floatTo16Bit(data: Float32Array): Int16Array {
+  const l = data.length;
+  const int16 = new Int16Array(l);
+  for (let i = 0; i < l; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return int16;
+}
+
 async function decodeAudioData(
   data: Uint8Array,
-  // FIX: Change AudioContext to `any` due to missing Web Audio API types.
-  ctx: any,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
-  // FIX: Change AudioBuffer to `any` due to missing Web Audio API types.
-): Promise<any> {
+): Promise<AudioBuffer> {
   const buffer = ctx.createBuffer(
     numChannels,
     data.length / 2 / numChannels,
@@ -73,4 +82,4 @@ async function decodeAudioData(
   return buffer;
 }
 
-export {createBlob, decode, decodeAudioData, encode};
+export {createBlob, decode, decodeAudioData, encode, floatTo16Bit};
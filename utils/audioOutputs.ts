@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface AudioOutput {
+  /** Passed to `setSinkId`, empty for the system default. */
+  deviceId: string;
+  label: string;
+}
+
+/** `AudioContext.setSinkId`, which the DOM types and some browsers lack. */
+interface SinkAudioContext extends AudioContext {
+  readonly sinkId?: string | object;
+  setSinkId?(sinkId: string): Promise<void>;
+}
+
+/** Whether audio contexts can play to an output other than the default. */
+export function supportsSinkSelection() {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+/** Routes a context to an output device, the default one for an empty id. */
+export async function setContextSink(context: AudioContext, sinkId: string) {
+  const sinkContext = context as SinkAudioContext;
+  if (!sinkContext.setSinkId) throw new Error('This browser cannot choose the audio output.');
+  if (sinkContext.sinkId === sinkId) return;
+  await sinkContext.setSinkId(sinkId);
+}
+
+/**
+ * The audio outputs, the default first. Browsers hide device labels until
+ * the page has been granted media access, so unlabelled ones get numbers.
+ */
+export async function listAudioOutputs(): Promise<AudioOutput[]> {
+  const outputs: AudioOutput[] = [{ deviceId: '', label: 'Default output' }];
+  if (!navigator.mediaDevices?.enumerateDevices) return outputs;
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  devices
+    .filter((d) => d.kind === 'audiooutput' && d.deviceId !== 'default' && d.deviceId !== '')
+    .forEach((d, i) => outputs.push({ deviceId: d.deviceId, label: d.label || `Output ${i + 1}` }));
+  return outputs;
+}
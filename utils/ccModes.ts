@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { CcMode } from '../types';
+
+export const CC_MODE_LABELS: Record<CcMode, string> = {
+  'absolute': 'Absolute',
+  'relative-twos-complement': 'Relative (2\'s comp.)',
+  'relative-signed-bit': 'Relative (signed bit)',
+  'relative-binary-offset': 'Relative (offset 64)',
+  '14-bit': '14-bit',
+};
+
+/** 14-bit CCs pair an MSB on CC 0-31 with its LSB 32 numbers higher. */
+export const LSB_OFFSET = 32;
+
+/** How far one encoder tick moves the control position. */
+const RELATIVE_STEP = 1 / 127;
+
+/** Knobs this close to the current position count as picked up. */
+const PICKUP_TOLERANCE = 1 / 127;
+
+export function isRelative(mode: CcMode) {
+  return mode.startsWith('relative');
+}
+
+/** The signed number of ticks a relative encoder message encodes. */
+export function relativeDelta(mode: CcMode, value: number): number {
+  switch (mode) {
+    case 'relative-twos-complement':
+      return value < 64 ? value : value - 128;
+    case 'relative-signed-bit':
+      return value & 0x40 ? -(value & 0x3f) : value & 0x3f;
+    case 'relative-binary-offset':
+      return value - 64;
+    default:
+      return 0;
+  }
+}
+
+/** The CC numbers a mapping listens to. */
+export function mappedCcs(cc: number, mode: CcMode): number[] {
+  return mode === '14-bit' && cc < LSB_OFFSET ? [cc, cc + LSB_OFFSET] : [cc];
+}
+
+/**
+ * Turns one prompt's CC messages into control positions (0-1) according to
+ * its mode. Keeps the 14-bit MSB/LSB pair and the soft takeover state
+ * between messages.
+ */
+export class CcPositionReader {
+  private msb = 0;
+  private lsb = 0;
+  private lastPosition: number | null = null;
+  private pickedUp = false;
+
+  /**
+   * Call when the position changes from anything but this reader, so a knob
+   * with soft takeover has to pick it up again.
+   */
+  release() {
+    this.pickedUp = false;
+    this.lastPosition = null;
+  }
+
+  /**
+   * Returns the new position for a message on one of the mapped CCs, or null
+   * while soft takeover is still waiting for the knob to reach `current`.
+   */
+  read(mode: CcMode, pickup: boolean, isLsb: boolean, value: number, current: number): number | null {
+    if (isRelative(mode)) {
+      const next = current + relativeDelta(mode, value) * RELATIVE_STEP;
+      return Math.max(0, Math.min(1, next));
+    }
+
+    let position: number;
+    if (mode === '14-bit') {
+      if (isLsb) {
+        this.lsb = value;
+      } else {
+        // A new MSB starts a new pair, the LSB follows it.
+        this.msb = value;
+        this.lsb = 0;
+      }
+      position = ((this.msb << 7) | this.lsb) / 16383;
+    } else {
+      position = value / 127;
+    }
+
+    if (pickup && !this.pickedUp) {
+      const last = this.lastPosition;
+      this.lastPosition = position;
+      const crossed = last !== null && (last - current) * (position - current) <= 0;
+      if (!crossed && Math.abs(position - current) > PICKUP_TOLERANCE) return null;
+      this.pickedUp = true;
+    }
+    return position;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt } from '../types';
+
+function textKey(text: string) {
+  return text.trim().toLowerCase();
+}
+
+/**
+ * Interpolates prompt weights between two scenes, `position` 0 being all A and
+ * 1 all B. Prompts with the same text in both scenes are merged into A's slot.
+ * Prompts only active in B take over A's slots that are silent in both
+ * scenes, so the grid keeps its size wherever possible.
+ */
+export function crossfadePrompts(
+  a: Map<string, Prompt>,
+  b: Map<string, Prompt>,
+  position: number,
+): Map<string, Prompt> {
+  const x = Math.max(0, Math.min(1, position));
+  const bByText = new Map([...b.values()].map((p) => [textKey(p.text), p]));
+
+  const result = new Map<string, Prompt>();
+  const freeSlots: Prompt[] = [];
+  for (const prompt of a.values()) {
+    const match = bByText.get(textKey(prompt.text));
+    const weight = prompt.weight * (1 - x) + (match?.weight ?? 0) * x;
+    result.set(prompt.promptId, { ...prompt, weight });
+    if (!match && prompt.weight === 0) freeSlots.push(prompt);
+  }
+
+  const aTexts = new Set([...a.values()].map((p) => textKey(p.text)));
+  for (const prompt of b.values()) {
+    if (aTexts.has(textKey(prompt.text)) || prompt.weight === 0) continue;
+    const slot = freeSlots.shift();
+    const promptId = slot?.promptId ?? `${prompt.promptId}-b`;
+    result.set(promptId, {
+      ...prompt,
+      promptId,
+      cc: slot?.cc ?? prompt.cc,
+      weight: prompt.weight * x,
+    });
+  }
+
+  return result;
+}
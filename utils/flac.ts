@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { floatTo16Bit } from './audio';
+
+/**
+ * A small 16-bit FLAC encoder using fixed linear predictors and a single
+ * Rice partition per subframe. It trades some compression for simplicity,
+ * but the output is a valid stream any FLAC decoder will play.
+ */
+
+const BLOCK_SIZE = 4096;
+/** Frame header codes for common sample rates, others are read from STREAMINFO. */
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+const BITS_PER_SAMPLE = 16;
+/** Rice parameters above this would need the escape code. */
+const MAX_RICE_PARAM = 14;
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private byteLength = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  get length() {
+    return this.byteLength;
+  }
+
+  /** Writes the low `bits` bits of a non-negative `value`, MSB first. */
+  writeBits(value: number, bits: number) {
+    let remaining = bits;
+    while (remaining > 0) {
+      const take = Math.min(8 - this.accBits, remaining);
+      const shift = remaining - take;
+      const chunk = Math.floor(value / 2 ** shift) & ((1 << take) - 1);
+      this.acc = (this.acc << take) | chunk;
+      this.accBits += take;
+      remaining -= take;
+      if (this.accBits === 8) {
+        this.pushByte(this.acc);
+        this.acc = 0;
+        this.accBits = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.writeBits(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(quotient: number) {
+    let zeros = quotient;
+    while (zeros > 24) {
+      this.writeBits(0, 24);
+      zeros -= 24;
+    }
+    this.writeBits(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.writeBits(0, 8 - this.accBits);
+  }
+
+  slice(start: number, end = this.byteLength) {
+    return this.bytes.subarray(start, end);
+  }
+
+  toUint8Array() {
+    return this.bytes.slice(0, this.byteLength);
+  }
+
+  private pushByte(byte: number) {
+    if (this.byteLength === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.byteLength++] = byte;
+  }
+}
+
+function crc8(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+function crc16(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/** Writes the frame number in FLAC's UTF-8 like variable length coding. */
+function writeUtf8Number(writer: BitWriter, n: number) {
+  if (n < 0x80) {
+    writer.writeBits(n, 8);
+    return;
+  }
+  let continuationBytes = 1;
+  while (n >= 2 ** (6 + 5 * continuationBytes)) continuationBytes++;
+  const leadMarker = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.writeBits(leadMarker | Math.floor(n / 2 ** (6 * continuationBytes)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(n / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+/** Residuals of the fixed polynomial predictor of the given order. */
+function fixedResiduals(samples: Int16Array, order: number): Int32Array {
+  const n = samples.length;
+  const residuals = new Int32Array(Math.max(0, n - order));
+  for (let i = order; i < n; i++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = s[i - 1]; break;
+      case 2: prediction = 2 * s[i - 1] - s[i - 2]; break;
+      case 3: prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break;
+      case 4: prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break;
+    }
+    residuals[i - order] = s[i] - prediction;
+  }
+  return residuals;
+}
+
+function riceParameter(residuals: Int32Array) {
+  if (residuals.length === 0) return 0;
+  let sum = 0;
+  for (const r of residuals) sum += Math.abs(r);
+  const mean = sum / residuals.length;
+  const k = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  return Math.min(k, MAX_RICE_PARAM);
+}
+
+function writeSubframe(writer: BitWriter, samples: Int16Array) {
+  // Pick the fixed predictor with the smallest residuals.
+  let bestOrder = 0;
+  let bestResiduals = fixedResiduals(samples, 0);
+  let bestCost = Infinity;
+  for (let order = 0; order <= 4 && order < samples.length; order++) {
+    const residuals = fixedResiduals(samples, order);
+    let cost = 0;
+    for (const r of residuals) cost += Math.abs(r);
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestOrder = order;
+      bestResiduals = residuals;
+    }
+  }
+
+  writer.writeBits(0, 1); // padding
+  writer.writeBits(0b001000 | bestOrder, 6); // SUBFRAME_FIXED
+  writer.writeBits(0, 1); // no wasted bits
+  for (let i = 0; i < bestOrder; i++) {
+    writer.writeSigned(samples[i], BITS_PER_SAMPLE);
+  }
+
+  const k = riceParameter(bestResiduals);
+  writer.writeBits(0, 2); // 4-bit Rice parameters
+  writer.writeBits(0, 4); // partition order 0
+  writer.writeBits(k, 4);
+  for (const r of bestResiduals) {
+    const folded = r >= 0 ? r * 2 : -r * 2 - 1;
+    writer.writeUnary(Math.floor(folded / 2 ** k));
+    if (k > 0) writer.writeBits(folded % 2 ** k, k);
+  }
+}
+
+function writeFrame(
+  writer: BitWriter,
+  frameNumber: number,
+  channels: Int16Array[],
+  sampleRate: number,
+) {
+  const blockSize = channels[0].length;
+  const start = writer.length;
+
+  writer.writeBits(0b11111111111110, 14); // sync code
+  writer.writeBits(0, 1); // reserved
+  writer.writeBits(0, 1); // fixed block size
+  // 0b1100 is 4096 samples, 0b0111 reads the size from the end of the header
+  writer.writeBits(blockSize === BLOCK_SIZE ? 0b1100 : 0b0111, 4);
+  writer.writeBits(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+  writer.writeBits(channels.length - 1, 4); // independent channels
+  writer.writeBits(0b100, 3); // 16 bits per sample
+  writer.writeBits(0, 1); // reserved
+  writeUtf8Number(writer, frameNumber);
+  if (blockSize !== BLOCK_SIZE) writer.writeBits(blockSize - 1, 16);
+  writer.writeBits(crc8(writer.slice(start)), 8);
+
+  for (const samples of channels) {
+    writeSubframe(writer, samples);
+  }
+
+  writer.alignToByte();
+  writer.writeBits(crc16(writer.slice(start)), 16);
+}
+
+/** Encodes planar float channels (up to 8) as a 16-bit FLAC file. */
+export function encodeFlac(channels: Float32Array[], sampleRate: number): Blob {
+  const pcm = channels.map(floatTo16Bit);
+  const totalSamples = pcm[0]?.length ?? 0;
+  const writer = new BitWriter();
+
+  writer.writeBits(0x664c6143, 32); // "fLaC"
+
+  // STREAMINFO, the only (and so last) metadata block
+  writer.writeBits(1, 1);
+  writer.writeBits(0, 7);
+  writer.writeBits(34, 24);
+  writer.writeBits(BLOCK_SIZE, 16); // min block size, ignoring the last block
+  writer.writeBits(BLOCK_SIZE, 16); // max block size
+  writer.writeBits(0, 24); // min frame size, unknown
+  writer.writeBits(0, 24); // max frame size, unknown
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(pcm.length - 1, 3);
+  writer.writeBits(BITS_PER_SAMPLE - 1, 5);
+  writer.writeBits(totalSamples, 36);
+  for (let i = 0; i < 4; i++) writer.writeBits(0, 32); // MD5, unknown
+
+  for (let offset = 0, frame = 0; offset < totalSamples; offset += BLOCK_SIZE, frame++) {
+    const block = pcm.map((samples) => samples.subarray(offset, offset + BLOCK_SIZE));
+    writeFrame(writer, frame, block, sampleRate);
+  }
+
+  return new Blob([writer.toUint8Array()], { type: 'audio/flac' });
+}
@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Scale } from '@google/genai';
+
+import type { CcMode, FxSettings, MusicConfig, Preset, Prompt, PromptBand, WeightCurve } from '../types';
+import { decode, encode } from './audio';
+import { CC_MODE_LABELS } from './ccModes';
+import { FX_KILL_BANDS, FX_RANGES } from './MasterFxChain';
+import type { FxKill, FxKnobParam } from './MasterFxChain';
+import { BAND_LABELS } from './promptBands';
+import { CURVE_LABELS, validateBreakpoints } from './weightCurve';
+
+/**
+ * Presets are stored and shared as a versioned JSON document:
+ *
+ *   {
+ *     "format": "prompt-dj-presets",
+ *     "version": 3,
+ *     "presets": [
+ *       {
+ *         "name": "Ambient Dreams",
+ *         "prompts": [
+ *           { "promptId": "prompt-0", "text": "Lush Strings", "weight": 1, "cc": 0, "color": "#3dffab" }
+ *         ],
+ *         "config": { "bpm": 70, "scale": "D_MAJOR_B_MINOR" },
+ *         "fx": { "filter": -0.4, "killLow": true }
+ *       }
+ *     ]
+ *   }
+ *
+ * Version 2 was the localStorage format before this schema existed: an object
+ * of preset name to `[promptId, Prompt]` pairs, optionally wrapped with a
+ * `config`. It is migrated on read. `fx` is optional, presets without it
+ * leave the master effects as they are.
+ */
+export const PRESET_FILE_FORMAT = 'prompt-dj-presets';
+export const PRESET_FILE_VERSION = 3;
+
+export interface PresetFileEntry {
+  name: string;
+  prompts: Prompt[];
+  config: MusicConfig;
+  fx?: FxSettings;
+}
+
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: typeof PRESET_FILE_VERSION;
+  presets: PresetFileEntry[];
+}
+
+/** Ranges accepted for each numeric config field. */
+const CONFIG_RANGES: Record<Exclude<keyof MusicConfig, 'scale'>, [number, number]> = {
+  bpm: [60, 200],
+  density: [0, 1],
+  brightness: [0, 1],
+  temperature: [0, 3],
+  guidance: [0, 6],
+  seed: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+};
+
+const URL_FRAGMENT_KEY = 'preset';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid preset file: ${path} ${message}.`);
+}
+
+function validatePrompt(value: unknown, path: string): Prompt {
+  if (!isObject(value)) fail(path, 'must be an object');
+  const {
+    promptId, text, weight, cc, channel, device, ccMode, pickup,
+    minWeight, maxWeight, curve, breakpoints, muted, soloed, locked, band, color,
+  } = value;
+  if (typeof promptId !== 'string' || !promptId) fail(`${path}.promptId`, 'must be a non-empty string');
+  if (typeof text !== 'string') fail(`${path}.text`, 'must be a string');
+  if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+    fail(`${path}.weight`, 'must be a number of at least 0');
+  }
+  if (!Number.isInteger(cc) || (cc as number) < 0 || (cc as number) > 127) {
+    fail(`${path}.cc`, 'must be an integer from 0 to 127');
+  }
+  if (channel !== undefined && (!Number.isInteger(channel) || (channel as number) < 0 || (channel as number) > 15)) {
+    fail(`${path}.channel`, 'must be an integer from 0 to 15');
+  }
+  if (device !== undefined && typeof device !== 'string') fail(`${path}.device`, 'must be a string');
+  if (ccMode !== undefined && !Object.hasOwn(CC_MODE_LABELS, ccMode as string)) {
+    fail(`${path}.ccMode`, 'must be a known CC mode');
+  }
+  for (const [key, field] of Object.entries({ pickup, muted, soloed, locked })) {
+    if (field !== undefined && typeof field !== 'boolean') fail(`${path}.${key}`, 'must be a boolean');
+  }
+  for (const [key, field] of Object.entries({ minWeight, maxWeight })) {
+    if (field !== undefined && (typeof field !== 'number' || !Number.isFinite(field) || field < 0)) {
+      fail(`${path}.${key}`, 'must be a number of at least 0');
+    }
+  }
+  if (curve !== undefined && !Object.hasOwn(CURVE_LABELS, curve as string)) {
+    fail(`${path}.curve`, 'must be a known curve');
+  }
+  if (breakpoints !== undefined && !(
+    Array.isArray(breakpoints) &&
+    breakpoints.every((p) => Array.isArray(p) && p.length === 2 && p.every((v) => typeof v === 'number')) &&
+    validateBreakpoints(breakpoints)
+  )) {
+    fail(`${path}.breakpoints`, 'must be [position, amount] pairs from 0 to 1 with amounts that never fall');
+  }
+  if (band !== undefined && !Object.hasOwn(BAND_LABELS, band as string)) {
+    fail(`${path}.band`, 'must be low, mid or high');
+  }
+  if (typeof color !== 'string' || !/^#[0-9a-f]{3,8}$/i.test(color)) {
+    fail(`${path}.color`, 'must be a hex color');
+  }
+  const prompt: Prompt = { promptId, text, weight, cc: cc as number, color };
+  if (channel !== undefined) prompt.channel = channel as number;
+  if (device !== undefined) prompt.device = device as string;
+  if (ccMode !== undefined) prompt.ccMode = ccMode as CcMode;
+  if (pickup !== undefined) prompt.pickup = pickup as boolean;
+  if (minWeight !== undefined) prompt.minWeight = minWeight as number;
+  if (maxWeight !== undefined) prompt.maxWeight = maxWeight as number;
+  if (curve !== undefined) prompt.curve = curve as WeightCurve;
+  if (breakpoints !== undefined) prompt.breakpoints = breakpoints as Array<[number, number]>;
+  if (muted !== undefined) prompt.muted = muted as boolean;
+  if (soloed !== undefined) prompt.soloed = soloed as boolean;
+  if (locked !== undefined) prompt.locked = locked as boolean;
+  if (band !== undefined) prompt.band = band as PromptBand;
+  return prompt;
+}
+
+function validateConfig(value: unknown, path: string): MusicConfig {
+  if (value === undefined) return {};
+  if (!isObject(value)) fail(path, 'must be an object');
+  const config: MusicConfig = {};
+  for (const [key, [min, max]] of Object.entries(CONFIG_RANGES)) {
+    const field = value[key];
+    if (field === undefined) continue;
+    if (typeof field !== 'number' || !Number.isFinite(field) || field < min || field > max) {
+      fail(`${path}.${key}`, `must be a number from ${min} to ${max}`);
+    }
+    config[key as keyof typeof CONFIG_RANGES] = field;
+  }
+  if (value.scale !== undefined) {
+    if (!Object.values(Scale).includes(value.scale as Scale)) {
+      fail(`${path}.scale`, 'must be a known scale');
+    }
+    config.scale = value.scale as Scale;
+  }
+  return config;
+}
+
+function validateFx(value: unknown, path: string): FxSettings | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) fail(path, 'must be an object');
+  const fx: FxSettings = {};
+  for (const [key, { min, max }] of Object.entries(FX_RANGES)) {
+    const field = value[key];
+    if (field === undefined) continue;
+    if (typeof field !== 'number' || !Number.isFinite(field) || field < min || field > max) {
+      fail(`${path}.${key}`, `must be a number from ${min} to ${max}`);
+    }
+    fx[key as FxKnobParam] = field;
+  }
+  for (const key of Object.keys(FX_KILL_BANDS) as FxKill[]) {
+    const field = value[key];
+    if (field === undefined) continue;
+    if (typeof field !== 'boolean') fail(`${path}.${key}`, 'must be a boolean');
+    fx[key] = field;
+  }
+  return fx;
+}
+
+function validateEntry(value: unknown, path: string): PresetFileEntry {
+  if (!isObject(value)) fail(path, 'must be an object');
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    fail(`${path}.name`, 'must be a non-empty string');
+  }
+  if (!Array.isArray(value.prompts) || value.prompts.length === 0) {
+    fail(`${path}.prompts`, 'must be a non-empty array');
+  }
+  const prompts = value.prompts.map((p, i) => validatePrompt(p, `${path}.prompts[${i}]`));
+  const ids = new Set(prompts.map((p) => p.promptId));
+  if (ids.size !== prompts.length) fail(`${path}.prompts`, 'must have unique promptIds');
+  const entry: PresetFileEntry = {
+    name: value.name.trim(),
+    prompts,
+    config: validateConfig(value.config, `${path}.config`),
+  };
+  const fx = validateFx(value.fx, `${path}.fx`);
+  if (fx) entry.fx = fx;
+  return entry;
+}
+
+/** Converts the version 2 storage object into the current schema. */
+function migrateV2(value: Record<string, unknown>): PresetFile {
+  const presets = Object.entries(value).map(([name, stored]) => {
+    const wrapped = isObject(stored);
+    const pairs = wrapped ? stored.prompts : stored;
+    return {
+      name,
+      prompts: Array.isArray(pairs)
+        ? pairs.map((pair) => Array.isArray(pair) ? pair[1] : pair)
+        : pairs,
+      config: wrapped ? stored.config : undefined,
+    };
+  });
+  return { format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets: presets as PresetFileEntry[] };
+}
+
+/**
+ * Validates a parsed preset document, migrating older versions.
+ * Throws an Error describing the first problem found.
+ */
+export function validatePresetFile(value: unknown): PresetFile {
+  if (!isObject(value)) fail('document', 'must be an object');
+  const file = value.format === undefined ? migrateV2(value) : value;
+  if (file.format !== PRESET_FILE_FORMAT) fail('format', `must be "${PRESET_FILE_FORMAT}"`);
+  if (file.version !== PRESET_FILE_VERSION) {
+    fail('version', `${String(file.version)} is not supported, expected ${PRESET_FILE_VERSION}`);
+  }
+  if (!Array.isArray(file.presets)) fail('presets', 'must be an array');
+  return {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: file.presets.map((p, i) => validateEntry(p, `presets[${i}]`)),
+  };
+}
+
+export function parsePresetFile(json: string): Map<string, Preset> {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid preset file: not valid JSON.');
+  }
+  const presets = new Map<string, Preset>();
+  for (const entry of validatePresetFile(value).presets) {
+    const preset: Preset = {
+      prompts: new Map(entry.prompts.map((p) => [p.promptId, p])),
+      config: entry.config,
+    };
+    if (entry.fx) preset.fx = entry.fx;
+    presets.set(entry.name, preset);
+  }
+  return presets;
+}
+
+export function serializePresetFile(presets: Map<string, Preset>, space?: number): string {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: [...presets].map(([name, preset]) => ({
+      name,
+      prompts: [...preset.prompts.values()],
+      config: preset.config,
+      fx: preset.fx,
+    })),
+  };
+  return JSON.stringify(file, null, space);
+}
+
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+/** Encodes presets as a compressed, URL-safe string for a link fragment. */
+export async function encodePresetFragment(presets: Map<string, Preset>): Promise<string> {
+  const json = new TextEncoder().encode(serializePresetFile(presets));
+  const compressed = await pipeBytes(json, new CompressionStream('deflate-raw'));
+  const base64 = encode(compressed).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${URL_FRAGMENT_KEY}=${base64}`;
+}
+
+/** Decodes presets from a link fragment, or returns null if it has none. */
+export async function decodePresetFragment(hash: string): Promise<Map<string, Preset> | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const base64 = params.get(URL_FRAGMENT_KEY);
+  if (!base64) return null;
+  let json: string;
+  try {
+    const bytes = decode(base64.replace(/-/g, '+').replace(/_/g, '/'));
+    const decompressed = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+    json = new TextDecoder().decode(decompressed);
+  } catch {
+    throw new Error('Invalid preset link: unable to decode it.');
+  }
+  return parsePresetFile(json);
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, PromptBand } from '../types';
+import type { BandLevels } from './AudioAnalyser';
+
+export const BAND_LABELS: Record<PromptBand, string> = {
+  'low': 'Low',
+  'mid': 'Mid',
+  'high': 'High',
+};
+
+/** Words that suggest a band, checked in this order. Plurals match too. */
+const BAND_KEYWORDS: Array<[PromptBand, string[]]> = [
+  ['low', ['bass', 'bassline', 'sub', 'kick', '808', 'drum', 'tuba', 'cello', 'boom']],
+  ['high', [
+    'hat', 'hi-hat', 'hihat', 'cymbal', 'shaker', 'tambourine', 'bell', 'chime', 'glockenspiel',
+    'sparkling', 'shimmer', 'shimmering', 'flute', 'whistle', 'arp', 'arpeggio', 'percussion', 'glitch',
+  ]],
+  ['mid', [
+    'pad', 'string', 'chord', 'piano', 'key', 'organ', 'rhodes', 'guitar', 'vocal', 'voice',
+    'choir', 'synth', 'lead', 'sax', 'horn', 'brass', 'snare',
+  ]],
+];
+
+const BAND_PATTERNS = BAND_KEYWORDS.map(([band, words]): [PromptBand, RegExp] => [
+  band,
+  new RegExp(`\\b(?:${words.join('|')})s?\\b`, 'i'),
+]);
+
+/** Guesses the band a prompt sits in from its text, null when nothing hints at one. */
+export function guessBand(text: string): PromptBand | null {
+  return BAND_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+/** The band a prompt follows: the user's choice, else a guess from its text. */
+export function promptBand(prompt: Prompt): PromptBand | null {
+  return prompt.band ?? guessBand(prompt.text);
+}
+
+/** Each band's peak decays by this factor per frame. */
+const PEAK_DECAY = 0.995;
+/** Peaks never fall below this, so near silence isn't blown up to full scale. */
+const MIN_PEAK = 0.05;
+
+/**
+ * Scales each band by its recent peak, so the quieter highs move a halo as
+ * much as the lows do.
+ */
+export class BandNormalizer {
+  private peaks: BandLevels = { low: MIN_PEAK, mid: MIN_PEAK, high: MIN_PEAK };
+
+  normalize(bands: BandLevels): BandLevels {
+    const level = (band: PromptBand) => {
+      this.peaks[band] = Math.max(MIN_PEAK, bands[band], this.peaks[band] * PEAK_DECAY);
+      return bands[band] / this.peaks[band];
+    };
+    return { low: level('low'), mid: level('mid'), high: level('high') };
+  }
+
+  reset() {
+    this.peaks = { low: MIN_PEAK, mid: MIN_PEAK, high: MIN_PEAK };
+  }
+}
@@ -2,23 +2,98 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+export interface ThrottleOptions {
+  /** Call on the first call of a burst. Defaults to true. */
+  leading?: boolean;
+  /**
+   * Call again once the delay has passed, with the latest arguments, if any
+   * calls came in meanwhile. Defaults to true, so the last call is never lost.
+   */
+  trailing?: boolean;
+}
+
+export interface Throttled<T extends (...args: Parameters<T>) => ReturnType<T>> {
+  /**
+   * Resolves with the result of the call that handles these arguments: this
+   * one, or the trailing call that replaces it.
+   */
+  (...args: Parameters<T>): Promise<Awaited<ReturnType<T>>>;
+  /** Drops the pending trailing call. Its callers get the previous result. */
+  cancel(): void;
+  /** Makes the pending trailing call right away. */
+  flush(): Promise<Awaited<ReturnType<T>>>;
+}
+
+interface PendingCall<T extends (...args: Parameters<T>) => ReturnType<T>> {
+  args: Parameters<T>;
+  promise: Promise<Awaited<ReturnType<T>>>;
+  resolve: (result: Promise<Awaited<ReturnType<T>>>) => void;
+}
+
 /**
  * Throttles a callback to be called at most once per `delay` milliseconds.
- * Also returns the result of the last "fresh" call...
+ * Calls within the delay are merged into one trailing call with the latest
+ * arguments.
  */
 export function throttle<T extends (...args: Parameters<T>) => ReturnType<T>>(
   func: T,
   delay: number,
-): (...args: Parameters<T>) => ReturnType<T> {
+  { leading = true, trailing = true }: ThrottleOptions = {},
+): Throttled<T> {
   let lastCall = -Infinity;
-  let lastResult: ReturnType<T>;
-  return (...args: Parameters<T>) => {
-    const now = Date.now();
-    const timeSinceLastCall = now - lastCall;
-    if (timeSinceLastCall >= delay) {
-      lastResult = func(...args);
-      lastCall = now;
+  let lastResult: Promise<Awaited<ReturnType<T>>> = Promise.resolve(undefined as Awaited<ReturnType<T>>);
+  let pending: PendingCall<T> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const invoke = (args: Parameters<T>) => {
+    lastCall = Date.now();
+    try {
+      lastResult = Promise.resolve(func(...args));
+    } catch (e) {
+      lastResult = Promise.reject(e);
     }
     return lastResult;
   };
+
+  /** Resolves the pending call with what `run` returns for it. */
+  const settle = (run: (call: PendingCall<T>) => Promise<Awaited<ReturnType<T>>>) => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    const call = pending;
+    if (!call) return lastResult;
+    pending = null;
+    call.resolve(run(call));
+    return call.promise;
+  };
+
+  const flush = () => settle((call) => invoke(call.args));
+
+  const throttled = (...args: Parameters<T>) => {
+    const now = Date.now();
+    if (leading && !pending && now - lastCall >= delay) {
+      return invoke(args);
+    }
+    if (!trailing) return lastResult;
+
+    if (pending) {
+      pending.args = args;
+      return pending.promise;
+    }
+    let resolve!: PendingCall<T>['resolve'];
+    const promise = new Promise<Awaited<ReturnType<T>>>((r) => {
+      resolve = r;
+    });
+    pending = { args, promise, resolve };
+    const wait = leading ? lastCall + delay - now : Math.max(delay, lastCall + delay - now);
+    timer = setTimeout(flush, Math.max(0, wait));
+    return promise;
+  };
+
+  return Object.assign(throttled, {
+    cancel: () => {
+      settle(() => lastResult);
+    },
+    flush,
+  });
 }
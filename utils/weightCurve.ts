@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, WeightCurve } from '../types';
+
+/** The fields of a prompt that shape how its controls map onto the weight. */
+export type WeightResponse = Pick<Prompt, 'minWeight' | 'maxWeight' | 'curve' | 'breakpoints'>;
+
+export const DEFAULT_MIN_WEIGHT = 0;
+export const DEFAULT_MAX_WEIGHT = 2;
+
+export const CURVE_LABELS: Record<WeightCurve, string> = {
+  'linear': 'Linear',
+  'log': 'Log',
+  'exp': 'Exp',
+  'custom': 'Custom',
+};
+
+/** Steepness of the log and exp curves. */
+const CURVE_BASE = 10;
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+/** Linear interpolation through `[position, amount]` points sorted by position. */
+function interpolate(points: Array<[number, number]>, x: number) {
+  if (points.length === 0) return x;
+  if (x <= points[0][0]) return points[0][1];
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    if (x <= x1) {
+      const [x0, y0] = points[i - 1];
+      return x1 === x0 ? y1 : y0 + ((x - x0) / (x1 - x0)) * (y1 - y0);
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+/** Maps a control position onto the 0-1 share of the weight range. */
+function shape(response: WeightResponse, x: number) {
+  switch (response.curve) {
+    case 'log':
+      // Rises quickly, for fine control near the top.
+      return Math.log(1 + (CURVE_BASE - 1) * x) / Math.log(CURVE_BASE);
+    case 'exp':
+      // Rises slowly, for fine control near zero.
+      return (CURVE_BASE ** x - 1) / (CURVE_BASE - 1);
+    case 'custom':
+      return clamp01(interpolate(response.breakpoints ?? [], x));
+    default:
+      return x;
+  }
+}
+
+/** Inverse of `shape`, found by bisection for custom curves. */
+function unshape(response: WeightResponse, y: number) {
+  switch (response.curve) {
+    case 'log':
+      return (CURVE_BASE ** y - 1) / (CURVE_BASE - 1);
+    case 'exp':
+      return Math.log(1 + (CURVE_BASE - 1) * y) / Math.log(CURVE_BASE);
+    case 'custom': {
+      let lo = 0;
+      let hi = 1;
+      for (let i = 0; i < 20; i++) {
+        const mid = (lo + hi) / 2;
+        if (shape(response, mid) < y) lo = mid;
+        else hi = mid;
+      }
+      return hi;
+    }
+    default:
+      return y;
+  }
+}
+
+/** The weight for a control position (knob, wheel or MIDI) from 0 to 1. */
+export function positionToWeight(response: WeightResponse, position: number) {
+  const min = response.minWeight ?? DEFAULT_MIN_WEIGHT;
+  const max = response.maxWeight ?? DEFAULT_MAX_WEIGHT;
+  return min + (max - min) * shape(response, clamp01(position));
+}
+
+/** The control position showing a weight, clamped to the prompt's range. */
+export function weightToPosition(response: WeightResponse, weight: number) {
+  const min = response.minWeight ?? DEFAULT_MIN_WEIGHT;
+  const max = response.maxWeight ?? DEFAULT_MAX_WEIGHT;
+  if (max === min) return 0;
+  return clamp01(unshape(response, clamp01((weight - min) / (max - min))));
+}
+
+/** Parses breakpoints written as `position:amount` pairs, e.g. `0:0, 0.5:0.2, 1:1`. */
+export function parseBreakpoints(text: string): Array<[number, number]> | null {
+  const points: Array<[number, number]> = [];
+  for (const pair of text.split(',')) {
+    if (!pair.trim()) continue;
+    const [x, y] = pair.split(':').map((v) => Number(v.trim()));
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+    points.push([clamp01(x), clamp01(y)]);
+  }
+  return validateBreakpoints(points) ? points.sort((a, b) => a[0] - b[0]) : null;
+}
+
+export function formatBreakpoints(points: Array<[number, number]>) {
+  return points.map(([x, y]) => `${x}:${y}`).join(', ');
+}
+
+/**
+ * Breakpoints must be 0-1 pairs whose amounts never fall as the position
+ * rises, so every weight has a single position on the control.
+ */
+export function validateBreakpoints(points: Array<[number, number]>) {
+  const sorted = [...points].sort((a, b) => a[0] - b[0]);
+  return sorted.length >= 2 && sorted.every(([x, y], i) =>
+    x >= 0 && x <= 1 && y >= 0 && y <= 1 && (i === 0 || y >= sorted[i - 1][1]));
+}